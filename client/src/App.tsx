@@ -6,18 +6,20 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { Switch, Route, useLocation } from "wouter";
-import { Suspense, lazy, useEffect }  from "react";
+import { Suspense, lazy, useEffect, useState } from "react";
 import { QueryClientProvider }        from "@tanstack/react-query";
 import { queryClient }                from "./lib/queryClient";
 import { Toaster }                    from "@/components/ui/toaster";
 import { TooltipProvider }            from "@/components/ui/tooltip";
-import { HelmetProvider }             from "react-helmet-async";
+import { HelmetProvider, type HelmetServerState } from "react-helmet-async";
 import { AuthProvider }               from "@/hooks/useAuth";
 import { CookieBanner }               from "@/components/CookieBanner";
 import { initAnalytics, trackPageView } from "@/lib/analytics";
 
 initAnalytics();
 
+type HelmetContext = { helmet?: HelmetServerState | null };
+
 // ── Route-level code splitting ────────────────────────────────────────────────
 const Home          = lazy(() => import("@/pages/Home"));
 const TrekDetail    = lazy(() => import("@/pages/TrekDetail"));
@@ -32,12 +34,17 @@ const CountryPage   = lazy(() => import("@/pages/CountryPage"));
 const ContinentPage = lazy(() => import("@/pages/ContinentPage"));
 const DurationPage  = lazy(() => import("@/pages/DurationPage"));
 const TierPage      = lazy(() => import("@/pages/TierPage"));
+const MonthPage     = lazy(() => import("@/pages/MonthPage"));
+const CombinationPage = lazy(() => import("@/pages/CombinationPage"));
 const NotFound      = lazy(() => import("@/pages/not-found"));
 const Privacy       = lazy(() => import("@/pages/Privacy"));
 const Terms         = lazy(() => import("@/pages/Terms"));
 // ── NEW ──────────────────────────────────────────────────────────────────────
 const EmbedMap      = lazy(() => import("@/pages/EmbedMap"));
 
+// Ctrl/Cmd+K palette — loaded on first open
+const CommandPalette = lazy(() => import("@/components/CommandPalette"));
+
 // ── Loading skeletons ─────────────────────────────────────────────────────────
 function PageSkeleton() {
   return (
@@ -70,6 +77,8 @@ function SuspendedCountryPage(p: any)   { return <Suspense fallback={<PageSkelet
 function SuspendedContinentPage(p: any) { return <Suspense fallback={<PageSkeleton />}><ContinentPage {...p} /></Suspense>; }
 function SuspendedDurationPage(p: any)  { return <Suspense fallback={<PageSkeleton />}><DurationPage {...p} /></Suspense>; }
 function SuspendedTierPage(p: any)      { return <Suspense fallback={<PageSkeleton />}><TierPage {...p} /></Suspense>; }
+function SuspendedMonthPage(p: any)     { return <Suspense fallback={<PageSkeleton />}><MonthPage {...p} /></Suspense>; }
+function SuspendedCombinationPage(p: any) { return <Suspense fallback={<PageSkeleton />}><CombinationPage {...p} /></Suspense>; }
 function SuspendedPrivacy(p: any)       { return <Suspense fallback={<PageSkeleton />}><Privacy {...p} /></Suspense>; }
 function SuspendedTerms(p: any)         { return <Suspense fallback={<PageSkeleton />}><Terms {...p} /></Suspense>; }
 // ── NEW ──────────────────────────────────────────────────────────────────────
@@ -101,8 +110,10 @@ function Router() {
       <Route path="/treks/region/:slug"    component={SuspendedRegionPage} />
       <Route path="/treks/country/:slug"   component={SuspendedCountryPage} />
       <Route path="/treks/continent/:slug" component={SuspendedContinentPage} />
+      <Route path="/treks/continent/:continent/:kind/:slug" component={SuspendedCombinationPage} />
       <Route path="/treks/duration/:slug"  component={SuspendedDurationPage} />
       <Route path="/treks/tier/:slug"      component={SuspendedTierPage} />
+      <Route path="/treks/month/:slug"     component={SuspendedMonthPage} />
       <Route path="/privacy"               component={SuspendedPrivacy} />
       <Route path="/terms"                 component={SuspendedTerms} />
       <Route                               component={SuspendedNotFound} />
@@ -110,13 +121,43 @@ function Router() {
   );
 }
 
-export default function App() {
+// ── Command palette ───────────────────────────────────────────────────────────
+// Ctrl/Cmd+K toggles it on every route except embeds.
+function CommandPaletteLauncher() {
+  const [location] = useLocation();
+  const [open, setOpen] = useState(false);
+  const isEmbed = location.startsWith("/embed/");
+
+  useEffect(() => {
+    if (isEmbed) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey) && !e.altKey) {
+        e.preventDefault();
+        setOpen(o => !o);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [isEmbed]);
+
+  if (!open || isEmbed) return null;
+  return (
+    <Suspense fallback={null}>
+      <CommandPalette onClose={() => setOpen(false)} />
+    </Suspense>
+  );
+}
+
+// helmetContext is only passed by the prerenderer (entry-server.tsx), which
+// reads the collected <Helmet> tags back out of it.
+export default function App({ helmetContext }: { helmetContext?: HelmetContext }) {
   return (
-    <HelmetProvider>
+    <HelmetProvider context={helmetContext}>
       <QueryClientProvider client={queryClient}>
         <TooltipProvider>
           <AuthProvider>
             <Router />
+            <CommandPaletteLauncher />
             <Toaster />
             <CookieBanner />
           </AuthProvider>
@@ -0,0 +1,351 @@
+// components/CommandPalette.tsx
+// Ctrl/Cmd+K palette, opened on every route by App.tsx (lazy — this chunk
+// carries the trek catalog). From the keyboard:
+//
+//   • jump to a trek, SEO listing, article or page
+//   • apply a saved filter preset (or clear the filters)
+//   • add / remove a trek from the comparison
+//   • set a trek's status (completed / in progress / wishlist)
+//
+// Treks, listings and articles are listed once something is typed. Trek
+// actions open a second page with a trek picker; Backspace on an empty input
+// goes back.
+
+import { useMemo, useState } from 'react';
+import { useLocation } from 'wouter';
+import {
+  ArrowLeft, BookOpen, Check, Compass, GitCompareArrows, ListChecks,
+  MapPin, Mountain, SlidersHorizontal, X,
+} from 'lucide-react';
+import articlesMetaRaw from '@/data/articles-meta.json';
+import {
+  CommandDialog, CommandEmpty, CommandGroup, CommandInput, CommandItem,
+  CommandList, CommandShortcut,
+} from '@/components/ui/command';
+import { DialogTitle } from '@/components/ui/dialog';
+import { toast } from '@/hooks/use-toast';
+import { useTrekList } from '@/hooks/useTrekList';
+import { useFilterPresets, presetFilters } from '@/hooks/useFilterPresets';
+import type { ArticleMeta } from '@/lib/articles';
+import {
+  DURATION_BRACKETS, MONTHS, TIER_INFO, getAllContinents, getAllCountries,
+  getAllRegions, getCombinationPages,
+} from '@/lib/seo-pages';
+import type { TrekStatus } from '@/lib/supabaseClient';
+import { getAllTreks, getTrekById, type Trek } from '@/lib/treks';
+import { useCompareStore, toCompareTrek, MAX_COMPARE } from '@/store/compareStore';
+import { useFilterStore } from '@/store/useFilterStore';
+import { countActiveFilters } from '@/types/filters';
+import type { FilterPreset } from '@shared/schema';
+import { getTrekAliases } from '@shared/trekAliases';
+
+// ── Static entries ───────────────────────────────────────────────────────────
+
+const PAGES: { label: string; href: string }[] = [
+  { label: 'Home — globe',  href: '/' },
+  { label: 'Trek Finder',   href: '/trek-finder' },
+  { label: 'Top 100 Treks', href: '/top-100' },
+  { label: 'My Treks',      href: '/my-treks' },
+  { label: 'Articles',      href: '/articles' },
+  { label: 'About',         href: '/about' },
+  { label: 'Privacy',       href: '/privacy' },
+  { label: 'Terms',         href: '/terms' },
+];
+
+const STATUSES: { status: TrekStatus; label: string }[] = [
+  { status: 'completed',  label: 'Completed' },
+  { status: 'inProgress', label: 'In Progress' },
+  { status: 'wishlist',   label: 'Wishlist' },
+];
+
+interface Listing {
+  kind: string;
+  label: string;
+  href: string;
+}
+
+function getListings(): Listing[] {
+  return [
+    ...getAllContinents().map(c => ({ kind: 'Continent', label: c.name, href: `/treks/continent/${c.slug}` })),
+    ...getAllRegions().map(r => ({ kind: 'Region', label: r.name, href: `/treks/region/${r.slug}` })),
+    ...getAllCountries().map(c => ({ kind: 'Country', label: c.name, href: `/treks/country/${c.slug}` })),
+    ...TIER_INFO.map(t => ({ kind: 'Tier', label: t.label, href: `/treks/tier/${t.slug}` })),
+    ...DURATION_BRACKETS.map(b => ({ kind: 'Duration', label: b.label, href: `/treks/duration/${b.slug}` })),
+    ...MONTHS.map(m => ({ kind: 'Month', label: `Treks in ${m.label}`, href: `/treks/month/${m.slug}` })),
+    ...getCombinationPages().map(p => ({ kind: 'Listing', label: p.label, href: p.href })),
+  ];
+}
+
+// ── Trek items ───────────────────────────────────────────────────────────────
+
+// Matched by name, id, country, region and legacy slugs
+function TrekItem({ trek, onSelect, children }: { trek: Trek; onSelect: () => void; children?: React.ReactNode }) {
+  return (
+    <CommandItem
+      value={`${trek.name} ${trek.id}`}
+      keywords={[trek.country, trek.region, ...getTrekAliases(trek.id)].filter(Boolean)}
+      onSelect={onSelect}
+    >
+      <Mountain />
+      <span className="truncate">{trek.name}</span>
+      <span className="text-xs text-muted-foreground truncate">{trek.country}</span>
+      {children}
+    </CommandItem>
+  );
+}
+
+type Page =
+  | { kind: 'root' }
+  | { kind: 'compare' }
+  | { kind: 'status' }
+  | { kind: 'trekStatus'; trek: Trek };
+
+// ── Palette ──────────────────────────────────────────────────────────────────
+
+export default function CommandPalette({ onClose }: { onClose: () => void }) {
+  const [location, setLocation] = useLocation();
+  const [page, setPage] = useState<Page>({ kind: 'root' });
+  const [query, setQuery] = useState('');
+
+  const treks = useMemo(() => getAllTreks(), []);
+  const listings = useMemo(() => getListings(), []);
+  const articles = articlesMetaRaw as ArticleMeta[];
+
+  const { getStatus, toggle, loaded: listLoaded, loadFailed: listFailed } = useTrekList();
+  const { presets } = useFilterPresets();
+  const { filters, setFilters, resetFilters } = useFilterStore();
+  const { selectedTreks, addTrekToCompare, removeTrekFromCompare, clearCompare, openCompare } = useCompareStore();
+
+  // The trek whose page is open, for the "This trek" shortcuts
+  const currentTrek = useMemo(() => {
+    const match = location.match(/^\/trek\/([^/?#]+)/);
+    return match ? getTrekById(decodeURIComponent(match[1])) ?? null : null;
+  }, [location]);
+
+  const go = (href: string) => {
+    setLocation(href);
+    onClose();
+  };
+
+  const openPage = (next: Page) => {
+    setPage(next);
+    setQuery('');
+  };
+
+  const goBack = () => openPage(page.kind === 'trekStatus' ? { kind: 'status' } : { kind: 'root' });
+
+  const isComparing = (trek: Trek) => selectedTreks.some(t => t.id === trek.id);
+
+  const toggleCompare = (trek: Trek) => {
+    if (isComparing(trek)) {
+      removeTrekFromCompare(trek.id);
+      toast({ title: `Removed ${trek.name} from comparison` });
+    } else if (selectedTreks.length >= MAX_COMPARE) {
+      toast({ title: `Max ${MAX_COMPARE} treks`, description: 'Remove one from the comparison first.' });
+    } else {
+      addTrekToCompare(toCompareTrek(trek));
+      toast({ title: `Added ${trek.name} to comparison`, description: `${selectedTreks.length + 1} of ${MAX_COMPARE} selected` });
+    }
+    onClose();
+  };
+
+  // Same as the trek page buttons: picking the current status removes it
+  const setStatus = (trek: Trek, status: TrekStatus) => {
+    const removing = getStatus(trek.id) === status;
+    toggle(trek.id, status);
+    const label = STATUSES.find(s => s.status === status)!.label;
+    toast({ title: removing ? `Removed ${trek.name} from ${label}` : `Marked ${trek.name} as ${label}` });
+    onClose();
+  };
+
+  // Home's URL sync keeps the query string and the store in step from here
+  const applyPreset = (preset: FilterPreset) => {
+    setFilters(presetFilters(preset));
+    go(preset.query ? `/?${preset.query}` : '/');
+  };
+
+  // Until the saved list is in, "Mark as" could really be a removal
+  const statusItems = (trek: Trek) => {
+    if (!listLoaded) {
+      return (
+        <CommandItem value={`Status ${trek.name}`} disabled>
+          <ListChecks />
+          {listFailed ? "Couldn't load your saved treks — try again later" : 'Loading your saved treks…'}
+        </CommandItem>
+      );
+    }
+    const current = getStatus(trek.id);
+    return STATUSES.map(({ status, label }) => (
+      <CommandItem key={status} value={`${current === status ? 'Remove from' : 'Mark as'} ${label}`} onSelect={() => setStatus(trek, status)}>
+        {current === status ? <X /> : <ListChecks />}
+        {current === status ? `Remove from ${label}` : `Mark as ${label}`}
+      </CommandItem>
+    ));
+  };
+
+  const placeholder = {
+    root:       'Jump to a trek, page or article, or run an action…',
+    compare:    'Pick a trek to add to the comparison…',
+    status:     'Pick a trek to set its status…',
+    trekStatus: 'Set status…',
+  }[page.kind];
+
+  return (
+    <CommandDialog open onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogTitle className="sr-only">Command palette</DialogTitle>
+      <CommandInput
+        placeholder={placeholder}
+        value={query}
+        onValueChange={setQuery}
+        onKeyDown={(e) => {
+          if (e.key === 'Backspace' && !query && page.kind !== 'root') {
+            e.preventDefault();
+            goBack();
+          }
+        }}
+      />
+      <CommandList className="max-h-[min(420px,60vh)]">
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {page.kind !== 'root' && (
+          <CommandGroup>
+            <CommandItem value="Back" onSelect={goBack}>
+              <ArrowLeft />
+              Back
+              <CommandShortcut>⌫</CommandShortcut>
+            </CommandItem>
+          </CommandGroup>
+        )}
+
+        {/* ── Root ───────────────────────────────────────────────────────── */}
+        {page.kind === 'root' && (
+          <>
+            {currentTrek && (
+              <CommandGroup heading={currentTrek.name}>
+                <CommandItem value={`This trek compare ${currentTrek.name}`} onSelect={() => toggleCompare(currentTrek)}>
+                  <GitCompareArrows />
+                  {isComparing(currentTrek) ? 'Remove from comparison' : 'Add to comparison'}
+                </CommandItem>
+                {statusItems(currentTrek)}
+              </CommandGroup>
+            )}
+
+            {query && (
+              <CommandGroup heading="Treks">
+                {treks.map(trek => (
+                  <TrekItem key={trek.id} trek={trek} onSelect={() => go(`/trek/${trek.id}`)} />
+                ))}
+              </CommandGroup>
+            )}
+
+            <CommandGroup heading="Pages">
+              {PAGES.map(p => (
+                <CommandItem key={p.href} value={`Page ${p.label}`} onSelect={() => go(p.href)}>
+                  <Compass />
+                  {p.label}
+                </CommandItem>
+              ))}
+            </CommandGroup>
+
+            {(presets.length > 0 || countActiveFilters(filters) > 0) && (
+              <CommandGroup heading="Filters">
+                {presets.map(preset => (
+                  <CommandItem key={preset.id} value={`Filter preset ${preset.name}`} onSelect={() => applyPreset(preset)}>
+                    <SlidersHorizontal />
+                    Apply “{preset.name}”
+                  </CommandItem>
+                ))}
+                {countActiveFilters(filters) > 0 && (
+                  <CommandItem value="Clear all filters" onSelect={() => { resetFilters(); go('/'); }}>
+                    <X />
+                    Clear all filters
+                  </CommandItem>
+                )}
+              </CommandGroup>
+            )}
+
+            <CommandGroup heading="Actions">
+              <CommandItem value="Add a trek to compare" onSelect={() => openPage({ kind: 'compare' })}>
+                <GitCompareArrows />
+                Add a trek to compare…
+              </CommandItem>
+              {selectedTreks.length >= 2 && (
+                <CommandItem value="Open comparison" onSelect={() => { openCompare(); go('/'); }}>
+                  <GitCompareArrows />
+                  Open comparison ({selectedTreks.length})
+                </CommandItem>
+              )}
+              {selectedTreks.length > 0 && (
+                <CommandItem value="Clear comparison" onSelect={() => { clearCompare(); onClose(); }}>
+                  <X />
+                  Clear comparison
+                </CommandItem>
+              )}
+              <CommandItem value="Set a trek's status completed in progress wishlist" onSelect={() => openPage({ kind: 'status' })}>
+                <ListChecks />
+                Set a trek's status…
+              </CommandItem>
+            </CommandGroup>
+
+            {query && (
+              <CommandGroup heading="Listings">
+                {listings.map(l => (
+                  <CommandItem key={l.href} value={`${l.label} ${l.href}`} onSelect={() => go(l.href)}>
+                    <MapPin />
+                    <span className="truncate">{l.label}</span>
+                    <span className="text-xs text-muted-foreground">{l.kind}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {query && (
+              <CommandGroup heading="Articles">
+                {articles.map(a => (
+                  <CommandItem key={a.slug} value={`Article ${a.title}`} keywords={[a.category]} onSelect={() => go(`/articles/${a.slug}`)}>
+                    <BookOpen />
+                    <span className="truncate">{a.title}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </>
+        )}
+
+        {/* ── Trek pickers ───────────────────────────────────────────────── */}
+        {page.kind === 'compare' && (
+          <CommandGroup heading={`Compare (${selectedTreks.length}/${MAX_COMPARE})`}>
+            {treks.map(trek => (
+              <TrekItem key={trek.id} trek={trek} onSelect={() => toggleCompare(trek)}>
+                {isComparing(trek) && <Check className="ml-auto" />}
+              </TrekItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {page.kind === 'status' && (
+          <CommandGroup heading="Set status">
+            {treks.map(trek => {
+              const status = getStatus(trek.id);
+              return (
+                <TrekItem key={trek.id} trek={trek} onSelect={() => openPage({ kind: 'trekStatus', trek })}>
+                  {status && (
+                    <CommandShortcut className="tracking-normal">
+                      {STATUSES.find(s => s.status === status)?.label}
+                    </CommandShortcut>
+                  )}
+                </TrekItem>
+              );
+            })}
+          </CommandGroup>
+        )}
+
+        {page.kind === 'trekStatus' && (
+          <CommandGroup heading={page.trek.name}>
+            {statusItems(page.trek)}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  );
+}
@@ -2,11 +2,13 @@
 // Updated: Tier 4 (Thru-Hike) + Tier 5 (Trekking Peak) added, Month filter added
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { X } from 'lucide-react';
+import { X, Link2, Check } from 'lucide-react';
 import { FilterGroup } from './FilterGroup';
+import { RangeFilter } from './RangeFilter';
+import { useFilterPresets, presetFilters, presetUrl } from '../hooks/useFilterPresets';
 import { filterTreks } from '../lib/filterTreks';
 import { getAllTreks } from '../lib/treks';
-import { FilterState, EMPTY_FILTERS, countActiveFilters } from '../types/filters';
+import { FilterState, EMPTY_FILTERS, RANGE_FILTERS, countActiveFilters, type ListFilterKey, type NumericRange, type RangeKey } from '../types/filters';
 
 interface FilterPopupProps {
   isOpen:            boolean;
@@ -91,6 +93,9 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
     [allTreks, draft]
   );
   const panelRef = useRef<HTMLDivElement>(null);
+  const { presets, savePreset, deletePreset } = useFilterPresets();
+  const [presetName, setPresetName] = useState('');
+  const [copiedId, setCopiedId] = useState<string | null>(null);
 
   useEffect(() => { if (isOpen) setDraft(currentFilters); }, [isOpen, currentFilters]);
 
@@ -103,7 +108,7 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
   if (!isOpen) return null;
 
   // Toggle a value in/out of the selected array for a given filter
-  const toggle = (name: keyof FilterState, value: string) => {
+  const toggle = (name: ListFilterKey, value: string) => {
     setDraft(prev => {
       const current = prev[name];
       const next = current.includes(value)
@@ -113,8 +118,26 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
     });
   };
 
+  const setRange = (name: RangeKey, range: NumericRange) => {
+    setDraft(prev => ({ ...prev, [name]: range }));
+  };
+
   const activeCount = countActiveFilters(draft);
 
+  const handleSavePreset = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!presetName.trim() || activeCount === 0) return;
+    savePreset(presetName, draft);
+    setPresetName('');
+  };
+
+  const copyPresetLink = (id: string, url: string) => {
+    navigator.clipboard.writeText(url).then(() => {
+      setCopiedId(id);
+      setTimeout(() => setCopiedId(c => (c === id ? null : c)), 2000);
+    }).catch(() => {});
+  };
+
   return createPortal(
     <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center">
       {/* Backdrop */}
@@ -158,6 +181,62 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
         {/* Filter groups */}
         <div className="px-6 py-5 space-y-1">
 
+          {/* Saved presets — one click applies; the link icon copies a shareable URL */}
+          <div className="mb-5">
+            <p className="text-xs font-semibold uppercase tracking-widest text-slate-400 mb-2.5">
+              Saved Presets
+            </p>
+            {presets.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2.5">
+                {presets.map(preset => (
+                  <div key={preset.id} className="inline-flex items-center rounded-md border border-slate-200 bg-white text-sm">
+                    <button
+                      type="button"
+                      onClick={() => onApply(presetFilters(preset))}
+                      className="pl-3.5 pr-2 py-1.5 font-medium text-slate-700 hover:text-slate-900"
+                    >
+                      {preset.name}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => copyPresetLink(preset.id, presetUrl(preset))}
+                      className="p-1.5 text-slate-400 hover:text-slate-700"
+                      aria-label={`Copy link to ${preset.name}`}
+                    >
+                      {copiedId === preset.id ? <Check className="w-3.5 h-3.5 text-emerald-600" /> : <Link2 className="w-3.5 h-3.5" />}
+                    </button>
+                    <button
+                      type="button"
+                      onClick={() => deletePreset(preset.id)}
+                      className="p-1.5 pr-2 text-slate-400 hover:text-red-600"
+                      aria-label={`Delete ${preset.name}`}
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+            <form onSubmit={handleSavePreset} className="flex gap-2">
+              <input
+                type="text"
+                value={presetName}
+                onChange={e => setPresetName(e.target.value)}
+                maxLength={60}
+                placeholder={activeCount > 0 ? 'Name these filters, e.g. Asia teahouse, Oct–Nov' : 'Select filters below to save them'}
+                disabled={activeCount === 0}
+                className="flex-1 min-w-0 px-3 py-1.5 rounded-md border border-slate-200 text-sm text-slate-700 placeholder:text-slate-400 focus:outline-none focus:border-slate-400 disabled:bg-slate-50"
+              />
+              <button
+                type="submit"
+                disabled={activeCount === 0 || !presetName.trim()}
+                className="px-3.5 py-1.5 rounded-md text-sm font-medium border border-slate-900 bg-slate-900 text-white hover:bg-black disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+              >
+                Save
+              </button>
+            </form>
+          </div>
+
           {/* Tier — now includes Tier 4 Thru-Hike and Tier 5 Trekking Peak */}
           <FilterGroup
             label="Tier"
@@ -180,7 +259,7 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
                   <button
                     key={opt.value}
                     type="button"
-                    onClick={() => toggle('month' as keyof FilterState, opt.value)}
+                    onClick={() => toggle('month', opt.value)}
                     className={`
                       py-1.5 rounded-md text-xs font-semibold transition-all duration-150 border text-center
                       ${isActive
@@ -238,6 +317,16 @@ export function FilterPopup({ isOpen, onClose, currentFilters, onApply, matching
             selected={draft.budget ?? []}
             onChange={v => toggle('budget', v)}
           />
+
+          {/* Numeric ranges — "under 4000 m", "under $1500" */}
+          {RANGE_FILTERS.map(config => (
+            <RangeFilter
+              key={config.key}
+              config={config}
+              range={draft[config.key] ?? {}}
+              onChange={r => setRange(config.key, r)}
+            />
+          ))}
         </div>
 
         {/* Sticky footer */}
@@ -110,6 +110,7 @@ export function GlobeIntegration({ height = "100%", className = "" }: GlobeInteg
     return () => window.removeEventListener("message", handleMessage);
   }, [allTreks]);
 
+  // The whole FilterState, numeric ranges included ({ altitude: { max: 4000 } })
   useEffect(() => {
     const timer = setTimeout(() => {
       sendToGlobe({ type: "TREKMIND_FILTER_UPDATE", payload: currentFilters });
@@ -117,6 +118,9 @@ export function GlobeIntegration({ height = "100%", className = "" }: GlobeInteg
     return () => clearTimeout(timer);
   }, [currentFilters, sendToGlobe]);
 
+  // Filters restored from the URL (useFilterUrlSync) may arrive before the
+  // iframe is ready, when sendToGlobe drops them — filtersRef always holds
+  // the latest, so the globe starts with them.
   const handleLoad = useCallback(() => {
     isReadyRef.current = true;
     setIsLoading(false);
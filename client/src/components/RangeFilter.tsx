@@ -0,0 +1,48 @@
+// components/RangeFilter.tsx — two-thumb slider for a numeric filter range
+import React from 'react';
+import { Slider } from '@/components/ui/slider';
+import type { NumericRange, RangeFilterConfig } from '../types/filters';
+
+interface RangeFilterProps {
+  config:   RangeFilterConfig;
+  range:    NumericRange;
+  onChange: (range: NumericRange) => void;
+}
+
+// A thumb at either end of the scale leaves that side of the range open
+export const RangeFilter = React.memo(({ config, range, onChange }: RangeFilterProps) => {
+  const { label, min, max, step, format } = config;
+  const low  = range.min ?? min;
+  const high = range.max ?? max;
+
+  const summary =
+    range.min == null && range.max == null ? 'Any'
+    : range.min == null ? `Under ${format(high)}`
+    : range.max == null ? `${format(low)}+`
+    : `${format(low)} – ${format(high)}`;
+
+  return (
+    <fieldset className="mb-5">
+      <div className="flex items-baseline justify-between mb-3">
+        <legend className="text-xs font-semibold uppercase tracking-widest text-slate-400">
+          {label}
+        </legend>
+        <span className="text-xs font-medium text-slate-600">{summary}</span>
+      </div>
+      <Slider
+        min={min}
+        max={max}
+        step={step}
+        value={[low, high]}
+        minStepsBetweenThumbs={1}
+        onValueChange={([nextLow, nextHigh]) => onChange({
+          ...(nextLow  > min ? { min: nextLow }  : {}),
+          ...(nextHigh < max ? { max: nextHigh } : {}),
+        })}
+        aria-label={label}
+      />
+    </fieldset>
+  );
+});
+
+RangeFilter.displayName = 'RangeFilter';
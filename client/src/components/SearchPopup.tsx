@@ -1,8 +1,32 @@
-import { X, Search } from 'lucide-react';
+import { X, Search, BookOpen } from 'lucide-react';
 import { useState, useEffect, useMemo } from 'react';
 import { createPortal } from 'react-dom';
-import { getAllTreks } from '@/lib/treks';  // ✅ FIXED: Removed extra ../../
+import { useLocation } from 'wouter';
 import { getTrekImageUrl } from '@/lib/images';
+import { highlightParts, loadSearchIndex, search, type SearchField, type SearchIndex } from '@/lib/search';
+
+const SNIPPET_LABEL: Record<SearchField, string> = {
+  name:      'Name',
+  country:   'Country',
+  region:    'Region',
+  place:     'On the route',
+  highlight: 'Highlight',
+  terrain:   'Terrain',
+  about:     'About',
+};
+
+// Matched words in bold
+export function Highlighted({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightParts(text, terms).map((part, i) =>
+        part.match
+          ? <mark key={i} className="bg-amber-100 text-inherit rounded-sm px-0.5">{part.text}</mark>
+          : <span key={i}>{part.text}</span>
+      )}
+    </>
+  );
+}
 
 interface SearchPopupProps {
   isOpen: boolean;
@@ -12,7 +36,13 @@ interface SearchPopupProps {
 
 export function SearchPopup({ isOpen, onClose, onTrekSelect }: SearchPopupProps) {
   const [query, setQuery] = useState('');
-  const treks = useMemo(() => getAllTreks(), []);
+  const [index, setIndex] = useState<SearchIndex | null>(null);
+  const [, setLocation] = useLocation();
+
+  // Loaded on first open — /data/search-index.json, built at build time
+  useEffect(() => {
+    if (isOpen && !index) loadSearchIndex().then(setIndex);
+  }, [isOpen, index]);
 
   // Reset on close
   useEffect(() => {
@@ -37,16 +67,10 @@ export function SearchPopup({ isOpen, onClose, onTrekSelect }: SearchPopupProps)
     }
   }, [isOpen]);
 
-  const results = useMemo(() => {
-    if (!query.trim()) return [];
-    const q = query.toLowerCase();
-    return treks.filter((t: any) =>
-      t.name?.toLowerCase().includes(q) ||
-      t.country?.toLowerCase().includes(q) ||
-      t.region?.toLowerCase().includes(q) ||
-      t.terrain?.toLowerCase().includes(q)
-    ).slice(0, 10);
-  }, [query, treks]);
+  const results = useMemo(
+    () => (index && query.trim() ? search(index, query, 10) : []),
+    [index, query]
+  );
 
   if (!isOpen) return null;
 
@@ -80,7 +104,7 @@ export function SearchPopup({ isOpen, onClose, onTrekSelect }: SearchPopupProps)
             <input
               id="trek-search-input"
               type="text"
-              placeholder="Search by name, country, or region..."
+              placeholder="Search treks, places, passes or articles..."
               value={query}
               onChange={e => setQuery(e.target.value)}
               className="w-full pl-10 pr-4 py-3 border border-slate-300 rounded-lg focus:ring-2 focus:ring-primary focus:border-primary outline-none text-slate-900 placeholder:text-slate-400"
@@ -102,7 +126,7 @@ export function SearchPopup({ isOpen, onClose, onTrekSelect }: SearchPopupProps)
           {query && results.length === 0 && (
             <div className="text-center py-12 text-slate-400">
               <p className="text-sm">No treks found for "<strong>{query}</strong>"</p>
-              <p className="text-xs mt-1">Try searching by country or region</p>
+              <p className="text-xs mt-1">Try a trek, country, village or pass name</p>
             </div>
           )}
 
@@ -112,39 +136,48 @@ export function SearchPopup({ isOpen, onClose, onTrekSelect }: SearchPopupProps)
               <p className="text-xs text-slate-500 mb-3">
                 {results.length} result{results.length !== 1 ? 's' : ''}
               </p>
-              {results.map((trek: any) => (
+              {results.map(({ doc, terms, snippet }) => (
                 <button
-                  key={trek.id}
+                  key={`${doc.kind}:${doc.id}`}
                   onClick={() => {
-                    onTrekSelect(trek.id, trek.slug);
+                    if (doc.kind === 'trek') onTrekSelect(doc.id);
+                    else setLocation(doc.href);
                     onClose();
                   }}
                   className="w-full flex items-center gap-4 p-3 rounded-lg border border-slate-200 hover:border-primary hover:bg-primary/5 transition-all text-left group"
                 >
-                  {/* Trek thumbnail */}
-                  <div className="w-16 h-16 rounded-lg overflow-hidden flex-shrink-0 bg-slate-100">
-                    <img
-                      src={getTrekImageUrl(trek.imageFilename)}
-                      alt={trek.name}
-                      loading="lazy" 
-                      className="w-full h-full object-cover"
-                      onError={(e) => {
-                        e.currentTarget.src = '/images/placeholder-trek.jpg';
-                        e.currentTarget.onerror = null;
-                      }}
-                    />
+                  {/* Trek thumbnail / article icon */}
+                  <div className="w-16 h-16 rounded-lg overflow-hidden flex-shrink-0 bg-slate-100 flex items-center justify-center">
+                    {doc.image ? (
+                      <img
+                        src={getTrekImageUrl(doc.image)}
+                        alt={doc.title}
+                        loading="lazy"
+                        className="w-full h-full object-cover"
+                        onError={(e) => {
+                          e.currentTarget.src = '/images/placeholder-trek.jpg';
+                          e.currentTarget.onerror = null;
+                        }}
+                      />
+                    ) : (
+                      <BookOpen className="w-6 h-6 text-slate-400" />
+                    )}
                   </div>
 
-                  {/* Trek info */}
+                  {/* Result info */}
                   <div className="flex-1 min-w-0">
                     <p className="font-semibold text-slate-900 truncate group-hover:text-primary transition-colors">
-                      {trek.name}
+                      <Highlighted text={doc.title} terms={terms} />
                     </p>
                     <p className="text-sm text-slate-500 truncate">
-                      {trek.country}
-                      {trek.totalDays ? ` • ${trek.totalDays}` : ''}
-                      {trek.region ? ` • ${trek.region}` : ''}
+                      {doc.kind === 'article' ? `Article • ${doc.subtitle}` : doc.subtitle}
                     </p>
+                    {snippet && (
+                      <p className="text-xs text-slate-500 truncate mt-0.5">
+                        <span className="text-slate-400">{SNIPPET_LABEL[snippet.field]}: </span>
+                        <Highlighted text={snippet.text} terms={terms} />
+                      </p>
+                    )}
                   </div>
 
                   {/* Arrow */}
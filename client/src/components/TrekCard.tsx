@@ -5,33 +5,7 @@ import { Badge } from "@/components/ui/badge";
 import { MapPin, Clock, Ruler, Mountain, Calendar, ArrowRight, X } from "lucide-react";
 import { getTrekImageUrl } from '@/lib/images';
 import { CompareToggle } from "@/components/compare/CompareToggle";
-import { useCompareStore } from "@/store/compareStore";
-import type { CompareTrek } from "@/store/compareStore";
-
-// Maps raw trek data to the CompareTrek shape the store expects
-function toCompareTrek(trek: any): CompareTrek {
-  return {
-    id:              trek.id,
-    name:            trek.name,
-    region:          trek.region,
-    country:         trek.country,
-    terrain:         trek.terrain,
-    accommodation:   trek.accommodation,
-    distance:        trek.distance ?? `${trek.distanceKm ?? "?"}km`,
-    totalDays:       trek.totalDays ?? `${trek.durationDays ?? "?"} days`,
-    maxAltitude:     trek.maxAltitude ?? trek.maxAltitudeM ?? "N/A",
-    season:          trek.season ?? trek.bestSeason ?? trek.best_season ?? "Year-round",
-    permits:         trek.permits ?? "Not required",
-    popularityScore: trek.popularityScore ?? 0,
-    tier:            trek.tier ?? 1,
-    durationBucket:  trek.durationBucket ?? "Medium",
-    budget:          trek.budget,
-    costNotes:       trek.costNotes,
-    costIndependent: trek.costIndependent,
-    keyFeatures:     trek.keyFeatures,
-    imageFilename:   trek.imageFilename,
-  };
-}
+import { useCompareStore, toCompareTrek } from "@/store/compareStore";
 
 export function TrekCard({ trek, onClose, fromCards }: { trek: any; onClose?: () => void; fromCards?: boolean }) {
   const [imgError, setImgError] = useState(false);
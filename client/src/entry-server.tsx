@@ -0,0 +1,62 @@
+// client/src/entry-server.tsx
+// Server render of a single route, used by script/prerender.ts at build time.
+// Waits for every lazy route chunk (onAllReady) so the HTML contains the full
+// page, and returns the <Helmet> tags for the document head.
+
+import { Writable } from "stream";
+import { renderToPipeableStream } from "react-dom/server";
+import { Router } from "wouter";
+import type { HelmetServerState } from "react-helmet-async";
+import App from "./App";
+import { primePrerenderData, type PrerenderData } from "./lib/prerender";
+
+export interface RenderResult {
+  html: string;
+  head: string;
+}
+
+function headTags(helmet: HelmetServerState | null | undefined): string {
+  if (!helmet) return "";
+  return [helmet.title, helmet.meta, helmet.link, helmet.script]
+    .map((tags) => tags.toString())
+    .filter(Boolean)
+    .join("\n    ");
+}
+
+export function render(url: string, data: PrerenderData): Promise<RenderResult> {
+  primePrerenderData(data);
+
+  const [path, search = ""] = url.split("?");
+  const helmetContext: { helmet?: HelmetServerState | null } = {};
+
+  return new Promise((resolve, reject) => {
+    let html = "";
+    const sink = new Writable({
+      write(chunk, _encoding, done) {
+        html += chunk.toString();
+        done();
+      },
+      final(done) {
+        resolve({ html, head: headTags(helmetContext.helmet) });
+        done();
+      },
+    });
+
+    // Any error fails the page: a Suspense boundary that errors would
+    // otherwise ship its skeleton instead of the content.
+    const stream = renderToPipeableStream(
+      <Router ssrPath={path} ssrSearch={search}>
+        <App helmetContext={helmetContext} />
+      </Router>,
+      {
+        onAllReady() {
+          stream.pipe(sink);
+        },
+        onShellError: reject,
+        onError(err) {
+          reject(err);
+        },
+      },
+    );
+  });
+}
@@ -4,20 +4,55 @@
 // App.tsx imports this as: import { AuthProvider } from "@/hooks/useAuth"
 // (remove the .tsx extension from the import — TypeScript resolves it automatically)
 // ─────────────────────────────────────────────────────────────────────────────
-// Manages Supabase auth session using React Context.
+// Manages the auth session using React Context — Supabase by default, or the
+// TrekMind Express API (session cookie) when VITE_CLOUD_BACKEND=api.
 // Exposes: user, session, loading, isLoggedIn, signInWithGoogle,
 //          signInWithEmail, signUpWithEmail, signOut
 
 import { createContext, useContext, useState, useEffect, ReactNode } from 'react'
-import type { User, Session } from '@supabase/supabase-js'
+import type { Session } from '@supabase/supabase-js'
 import { supabase } from '@/lib/supabaseClient'
+import { CLOUD_BACKEND } from '@/lib/cloudStore'
+import { api } from '@shared/routes'
+import type { PublicUser } from '@shared/schema'
+
+// Common subset of the Supabase User and the API's PublicUser
+export interface AuthUser {
+  id: string
+  email?: string
+}
+
+type AuthResult = { error: { message: string } | null }
+
+// ── Express API auth ───────────────────────────────────────────────────────
+// Resolves to the same { error } shape supabase.auth returns, so AuthModal
+// works unchanged with either backend.
+async function apiCredentials(path: string, email: string, password: string): Promise<AuthResult & { user?: AuthUser }> {
+  try {
+    const res = await fetch(path, {
+      method: 'POST',
+      credentials: 'include',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email, password }),
+    })
+    const body = await res.json().catch(() => ({}))
+    if (!res.ok) return { error: { message: body.message ?? `Request failed (${res.status})` } }
+    return { error: null, user: toAuthUser(body as PublicUser) }
+  } catch {
+    return { error: { message: 'Could not reach the TrekMind server' } }
+  }
+}
+
+function toAuthUser(user: PublicUser): AuthUser {
+  return { id: String(user.id), email: user.email }
+}
 
 interface AuthContextType {
-  user: User | null
+  user: AuthUser | null
   session: Session | null
   loading: boolean
   isLoggedIn: boolean
-  signInWithGoogle: () => Promise<any>
+  signInWithGoogle: (options?: { redirectTo?: string }) => Promise<any>
   signInWithEmail: (e: string, p: string) => Promise<any>
   signUpWithEmail: (e: string, p: string) => Promise<any>
   signOut: () => Promise<any>
@@ -26,11 +61,26 @@ interface AuthContextType {
 const AuthContext = createContext<AuthContextType | undefined>(undefined)
 
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser]       = useState<User | null>(null)
+  const [user, setUser]       = useState<AuthUser | null>(null)
   const [session, setSession] = useState<Session | null>(null)
   const [loading, setLoading] = useState(true)
 
   useEffect(() => {
+    if (CLOUD_BACKEND === 'api') {
+      // Restore the server session, if any (401 = anonymous)
+      fetch(api.auth.me.path, { credentials: 'include' })
+        .then(res => (res.ok ? res.json() : null))
+        .then((u: PublicUser | null) => setUser(u ? toAuthUser(u) : null))
+        .catch(() => setUser(null))
+        .finally(() => setLoading(false))
+      return
+    }
+
+    if (!supabase) {
+      setLoading(false)
+      return
+    }
+
     // Fetch existing session on mount
     supabase.auth.getSession().then(({ data }) => {
       setUser(data.session?.user ?? null)
@@ -48,19 +98,46 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     return () => listener.subscription.unsubscribe()
   }, [])
 
-  const signInWithGoogle = () =>
-    supabase.auth.signInWithOAuth({
+  const unavailable = async (): Promise<AuthResult> =>
+    ({ error: { message: 'Sign-in is currently unavailable' } })
+
+  const signInWithGoogle = async (options?: { redirectTo?: string }) => {
+    if (CLOUD_BACKEND === 'api' || !supabase) return unavailable()
+    return supabase.auth.signInWithOAuth({
       provider: 'google',
-      options:  { redirectTo: window.location.origin },
+      options:  { redirectTo: options?.redirectTo ?? window.location.origin },
     })
+  }
 
-  const signInWithEmail = (email: string, password: string) =>
-    supabase.auth.signInWithPassword({ email, password })
+  const signInWithEmail = async (email: string, password: string) => {
+    if (CLOUD_BACKEND === 'api') {
+      const result = await apiCredentials(api.auth.login.path, email, password)
+      if (result.user) setUser(result.user)
+      return result
+    }
+    if (!supabase) return unavailable()
+    return supabase.auth.signInWithPassword({ email, password })
+  }
 
-  const signUpWithEmail = (email: string, password: string) =>
-    supabase.auth.signUp({ email, password })
+  const signUpWithEmail = async (email: string, password: string) => {
+    if (CLOUD_BACKEND === 'api') {
+      const result = await apiCredentials(api.auth.register.path, email, password)
+      if (result.user) setUser(result.user)
+      return result
+    }
+    if (!supabase) return unavailable()
+    return supabase.auth.signUp({ email, password })
+  }
 
-  const signOut = () => supabase.auth.signOut()
+  const signOut = async () => {
+    if (CLOUD_BACKEND === 'api') {
+      await fetch(api.auth.logout.path, { method: 'POST', credentials: 'include' })
+      setUser(null)
+      return { error: null }
+    }
+    if (!supabase) return unavailable()
+    return supabase.auth.signOut()
+  }
 
   return (
     <AuthContext.Provider value={{
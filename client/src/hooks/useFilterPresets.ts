@@ -0,0 +1,117 @@
+// client/src/hooks/useFilterPresets.ts
+// Named filter combinations ("Asia teahouse, Oct–Nov, Medium") saved from the
+// filter popup.
+//
+//   Anonymous  → localStorage key 'trekmind_filter_presets'
+//   Logged in  → user_preferences.filter_presets via cloudStore (Supabase or API)
+//   On login   → presets saved while anonymous are added to the cloud list
+//   Cloud list unreadable → this device's presets, kept in localStorage until
+//                           a later load can merge them
+//
+// A preset stores the filters as their URL query string (types/filters.ts),
+// so presetUrl() is a link that opens the home page with the same filters.
+
+import { useState, useEffect, useCallback } from 'react'
+import { MAX_FILTER_PRESETS, type FilterPreset } from '@shared/schema'
+import { cloudStore } from '@/lib/cloudStore'
+import { useAuth } from '@/hooks/useAuth'
+import { filtersFromParams, setFilterParams, type FilterState } from '@/types/filters'
+
+const LS_PRESETS = 'trekmind_filter_presets'
+
+function readLS(): FilterPreset[] {
+  try {
+    const presets = JSON.parse(localStorage.getItem(LS_PRESETS) ?? '[]')
+    return Array.isArray(presets) ? presets : []
+  } catch {
+    return []
+  }
+}
+
+function writeLS(presets: FilterPreset[]) {
+  localStorage.setItem(LS_PRESETS, JSON.stringify(presets))
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export function presetFilters(preset: FilterPreset): FilterState {
+  return filtersFromParams(new URLSearchParams(preset.query))
+}
+
+export function presetUrl(preset: FilterPreset): string {
+  return `${window.location.origin}/${preset.query ? `?${preset.query}` : ''}`
+}
+
+export function useFilterPresets() {
+  const { user, isLoggedIn } = useAuth()
+  const [presets, setPresets] = useState<FilterPreset[]>([])
+  // Set once the cloud list has been read — never write over one we haven't seen
+  const [cloudLoaded, setCloudLoaded] = useState(false)
+
+  useEffect(() => {
+    setCloudLoaded(false)
+    if (!isLoggedIn || !user) {
+      setPresets(readLS())
+      return
+    }
+
+    const load = async () => {
+      const prefs = await cloudStore.fetchPreferences(user.id)
+      const cloud = prefs?.filterPresets
+      if (!cloud) {
+        setPresets(readLS())
+        return
+      }
+      setCloudLoaded(true)
+
+      // Carry over presets saved before signing in (a cloud one wins on a name clash)
+      const pending = readLS().filter(p => !cloud.some(c => sameName(c.name, p.name)))
+      if (pending.length === 0) {
+        setPresets(cloud)
+        return
+      }
+      const merged = [...cloud, ...pending].slice(0, MAX_FILTER_PRESETS)
+      setPresets(merged)
+      try {
+        await cloudStore.updatePreferences(user.id, { filterPresets: merged })
+        localStorage.removeItem(LS_PRESETS)
+      } catch (err) {
+        console.error('[useFilterPresets] merge failed:', err)
+      }
+    }
+    load()
+  }, [isLoggedIn, user])
+
+  const persist = useCallback(async (next: FilterPreset[]) => {
+    setPresets(next)
+    if (!isLoggedIn || !user || !cloudLoaded) {
+      writeLS(next)
+      return
+    }
+    try {
+      await cloudStore.updatePreferences(user.id, { filterPresets: next })
+    } catch (err) {
+      console.error('[useFilterPresets] save failed:', err)
+    }
+  }, [isLoggedIn, user, cloudLoaded])
+
+  // Saving under an existing name replaces that preset's filters
+  const savePreset = useCallback((name: string, filters: FilterState) => {
+    const query = setFilterParams(new URLSearchParams(), filters).toString()
+    const existing = presets.find(p => sameName(p.name, name))
+    const next = existing
+      ? presets.map(p => (p.id === existing.id ? { ...p, query } : p))
+      : [...presets, { id: newId(), name: name.trim(), query }].slice(-MAX_FILTER_PRESETS)
+    return persist(next)
+  }, [presets, persist])
+
+  const deletePreset = useCallback((id: string) => {
+    return persist(presets.filter(p => p.id !== id))
+  }, [presets, persist])
+
+  return { presets, savePreset, deletePreset }
+}
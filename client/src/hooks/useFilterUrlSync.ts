@@ -0,0 +1,53 @@
+// client/src/hooks/useFilterUrlSync.ts
+// Two-way sync between useFilterStore and the query string of the current
+// page, so a filtered globe / cards view can be shared, bookmarked and
+// restored after a refresh.
+//
+//   store → URL  each change pushes a history entry (?region=Asia&month=10)
+//   URL → store  on load and on back/forward navigation
+//
+// A page opened without filter parameters keeps the filters already in the
+// store (e.g. coming back from a trek page via its back button) and writes
+// them into the URL instead of clearing them.
+
+import { useEffect, useRef } from 'react'
+import { useLocation, useSearch } from 'wouter'
+import { useFilterStore } from '@/store/useFilterStore'
+import { filtersFromParams, hasFilterParams, setFilterParams, type FilterState } from '@/types/filters'
+
+export function useFilterUrlSync() {
+  const [location, setLocation] = useLocation()
+  const search = useSearch()
+  const filters = useFilterStore((s) => s.filters)
+  const setFilters = useFilterStore((s) => s.setFilters)
+  const initialised = useRef(false)
+  const loaded = useRef(false)
+
+  // URL → store
+  useEffect(() => {
+    const params = new URLSearchParams(search)
+    const first = !initialised.current
+    initialised.current = true
+    if (first && !hasFilterParams(params)) return
+
+    const fromUrl = filtersFromParams(params)
+    const current = useFilterStore.getState().filters
+    if (queryOf(fromUrl) !== queryOf(current)) setFilters(fromUrl)
+  }, [search, setFilters])
+
+  // store → URL. Reads the store rather than `filters`: on the first render the
+  // effect above may just have replaced them.
+  useEffect(() => {
+    const params = new URLSearchParams(search)
+    const next = setFilterParams(params, useFilterStore.getState().filters).toString()
+    if (next === params.toString()) return
+    // Completing the URL on load replaces the entry; later changes push one
+    setLocation(`${location}${next ? `?${next}` : ''}`, { replace: !loaded.current })
+  }, [filters, search, location, setLocation])
+
+  useEffect(() => { loaded.current = true }, [])
+}
+
+function queryOf(filters: FilterState): string {
+  return setFilterParams(new URLSearchParams(), filters).toString()
+}
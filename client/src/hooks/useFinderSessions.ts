@@ -0,0 +1,109 @@
+// client/src/hooks/useFinderSessions.ts
+// Past Trek Finder runs, newest first — each one's answers as the finder's
+// query string, so /trek-finder?<query> brings the same ranked results back.
+//
+//   Anonymous  → localStorage key 'trekmind_finder_sessions'
+//   Logged in  → user_preferences.finder_sessions via cloudStore (Supabase or API)
+//   On login   → sessions recorded while anonymous are added to the cloud list
+//   Cloud list unreadable → this device's sessions, kept in localStorage until
+//                           a later load can merge them
+
+import { useState, useEffect, useCallback } from 'react'
+import { MAX_FINDER_SESSIONS, finderSessionSchema, type FinderSession } from '@shared/schema'
+import { cloudStore } from '@/lib/cloudStore'
+import { useAuth } from '@/hooks/useAuth'
+
+const LS_SESSIONS = 'trekmind_finder_sessions'
+
+function readLS(): FinderSession[] {
+  try {
+    const sessions = JSON.parse(localStorage.getItem(LS_SESSIONS) ?? '[]')
+    return Array.isArray(sessions) ? sessions : []
+  } catch {
+    return []
+  }
+}
+
+function writeLS(sessions: FinderSession[]) {
+  localStorage.setItem(LS_SESSIONS, JSON.stringify(sessions))
+}
+
+function newId(): string {
+  return `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+// A session the server would reject (too long a query) would fail every later
+// save of the whole list, so invalid ones are dropped before saving
+const isValid = (s: FinderSession) => finderSessionSchema.safeParse(s).success
+
+const byNewest = (a: FinderSession, b: FinderSession) => b.savedAt.localeCompare(a.savedAt)
+
+export function useFinderSessions() {
+  const { user, isLoggedIn } = useAuth()
+  const [sessions, setSessions] = useState<FinderSession[]>([])
+  // Set once the cloud list has been read — never write over one we haven't seen
+  const [cloudLoaded, setCloudLoaded] = useState(false)
+
+  useEffect(() => {
+    setCloudLoaded(false)
+    if (!isLoggedIn || !user) {
+      setSessions(readLS())
+      return
+    }
+
+    const load = async () => {
+      const prefs = await cloudStore.fetchPreferences(user.id)
+      const cloud = prefs?.finderSessions
+      if (!cloud) {
+        setSessions(readLS())
+        return
+      }
+      setCloudLoaded(true)
+
+      // Carry over runs from before signing in (the same answers are kept once)
+      const pending = readLS().filter(s => isValid(s) && !cloud.some(c => c.query === s.query))
+      if (pending.length === 0) {
+        setSessions(cloud)
+        return
+      }
+      const merged = [...cloud, ...pending].sort(byNewest).slice(0, MAX_FINDER_SESSIONS)
+      setSessions(merged)
+      try {
+        await cloudStore.updatePreferences(user.id, { finderSessions: merged })
+        localStorage.removeItem(LS_SESSIONS)
+      } catch (err) {
+        console.error('[useFinderSessions] merge failed:', err)
+      }
+    }
+    load()
+  }, [isLoggedIn, user])
+
+  const persist = useCallback(async (all: FinderSession[]) => {
+    const next = all.filter(isValid)
+    setSessions(next)
+    if (!isLoggedIn || !user || !cloudLoaded) {
+      writeLS(next)
+      return
+    }
+    try {
+      await cloudStore.updatePreferences(user.id, { finderSessions: next })
+    } catch (err) {
+      console.error('[useFinderSessions] save failed:', err)
+    }
+  }, [isLoggedIn, user, cloudLoaded])
+
+  // Running the same answers again moves that session to the top
+  const recordSession = useCallback((query: string) => {
+    const next = [
+      { id: newId(), query, savedAt: new Date().toISOString() },
+      ...sessions.filter(s => s.query !== query),
+    ].slice(0, MAX_FINDER_SESSIONS)
+    return persist(next)
+  }, [sessions, persist])
+
+  const deleteSession = useCallback((id: string) => {
+    return persist(sessions.filter(s => s.id !== id))
+  }, [sessions, persist])
+
+  return { sessions, recordSession, deleteSession }
+}
@@ -2,12 +2,12 @@
 // Tracks whether the user has seen the onboarding overlay.
 //
 //   Anonymous  → localStorage key 'trekmind_intro_seen'
-//   Logged in  → Supabase user_preferences.has_seen_intro
+//   Logged in  → user_preferences.has_seen_intro via cloudStore (Supabase or API)
 //
 // The IntroOverlay should read `hasSeen` and call `markSeen()` on dismiss.
 
 import { useState, useEffect } from 'react'
-import { supabase } from '@/lib/supabaseClient'
+import { cloudStore } from '@/lib/cloudStore'
 import { useAuth } from '@/hooks/useAuth'
 
 const LS_INTRO = 'trekmind_intro_seen'
@@ -23,20 +23,10 @@ export function useIntroSeen() {
       return
     }
 
-    // Logged in: check Supabase
-    supabase
-      .from('user_preferences')
-      .select('has_seen_intro')
-      .eq('user_id', user.id)
-      .single()
-      .then(({ data, error }) => {
-        if (error || !data) {
-          // Row may not exist yet (trigger handles creation) — default false
-          setHasSeen(false)
-        } else {
-          setHasSeen(data.has_seen_intro)
-        }
-      })
+    // Logged in: check the cloud — a missing row (trigger/first visit) means false
+    cloudStore.fetchPreferences(user.id).then((prefs) => {
+      setHasSeen(prefs?.hasSeenIntro ?? false)
+    })
   }, [isLoggedIn, user])
 
   const markSeen = async () => {
@@ -45,10 +35,11 @@ export function useIntroSeen() {
 
     if (!isLoggedIn || !user) return
 
-    await supabase
-      .from('user_preferences')
-      .upsert({ user_id: user.id, has_seen_intro: true, updated_at: new Date().toISOString() },
-               { onConflict: 'user_id' })
+    try {
+      await cloudStore.updatePreferences(user.id, { hasSeenIntro: true })
+    } catch (err) {
+      console.error('[useIntroSeen] save failed:', err)
+    }
   }
 
   return { hasSeen, markSeen }
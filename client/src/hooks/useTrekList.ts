@@ -3,11 +3,12 @@
 //
 // Strategy:
 //   • Anonymous  → localStorage only (existing behaviour, unchanged)
-//   • Logged in  → Supabase DB (source of truth)
-//   • On login   → merge localStorage → Supabase, clear localStorage
+//   • Logged in  → cloudStore (Supabase or the TrekMind API — source of truth)
+//   • On login   → merge localStorage → cloud, clear localStorage
 
 import { useState, useEffect, useCallback } from 'react'
-import { supabase, type TrekStatus } from '@/lib/supabaseClient'
+import { type TrekStatus } from '@/lib/supabaseClient'
+import { cloudStore } from '@/lib/cloudStore'
 import { useAuth } from '@/hooks/useAuth'
 
 // ── LocalStorage key ───────────────────────────────────────────────────────
@@ -27,79 +28,99 @@ function writeLS(map: TrekMap) {
   localStorage.setItem(LS_KEY, JSON.stringify(map))
 }
 
+// ── Cross-instance sync ────────────────────────────────────────────────────
+// Each hook instance keeps its own map; a change made through one (e.g. the
+// command palette) is broadcast so the others (trek page buttons) follow.
+const CHANGE_EVENT = 'trekmind:trek-list-change'
+
+interface ChangeDetail {
+  trekId: string
+  status: TrekStatus | null
+}
+
+function applyChange(map: TrekMap, { trekId, status }: ChangeDetail): TrekMap {
+  const updated = { ...map }
+  if (status === null) delete updated[trekId]
+  else updated[trekId] = status
+  return updated
+}
+
 // ── Hook ───────────────────────────────────────────────────────────────────
 export function useTrekList() {
   const { user, isLoggedIn } = useAuth()
   const [trekMap, setTrekMap] = useState<TrekMap>({})
   const [syncing, setSyncing] = useState(false)
+  // False until trekMap holds the saved list — toggle() decides add vs remove
+  // from it, so callers that mount late (the command palette) wait for this
+  const [loaded, setLoaded] = useState(false)
+  // The cloud list couldn't be read (backend down or unconfigured)
+  const [loadFailed, setLoadFailed] = useState(false)
 
   // ── Load data ────────────────────────────────────────────────────────────
   useEffect(() => {
+    setLoaded(false)
+    setLoadFailed(false)
     if (!isLoggedIn || !user) {
       // Anonymous: read from localStorage
       setTrekMap(readLS())
+      setLoaded(true)
       return
     }
 
-    // Logged in: fetch from Supabase and merge any pending localStorage items
+    // Logged in: fetch from the cloud and merge any pending localStorage items
     const load = async () => {
       setSyncing(true)
+      try {
+        const dbMap = await cloudStore.fetchSavedTreks(user.id)
+        if (!dbMap) {
+          setLoadFailed(true)
+          return
+        }
 
-      const { data, error } = await supabase
-        .from('saved_treks')
-        .select('trek_id, status')
-        .eq('user_id', user.id)
+        // Merge pending localStorage items → cloud (on first login)
+        const pending = readLS()
+        const toUpsert = Object.entries(pending).map(([trekId, status]) => ({ trekId, status }))
+
+        if (toUpsert.length > 0) {
+          try {
+            await cloudStore.upsertSavedTreks(user.id, toUpsert)
+            writeLS({}) // clear after sync
+            // Re-merge
+            for (const { trekId, status } of toUpsert) {
+              dbMap[trekId] = status
+            }
+          } catch (err) {
+            // Left in localStorage for the next load to retry
+            console.error('[useTrekList] merge failed:', err)
+          }
+        }
 
-      if (error) {
-        console.error('[useTrekList] fetch error:', error)
+        setTrekMap(dbMap)
+        setLoaded(true)
+      } catch (err) {
+        console.error('[useTrekList] load failed:', err)
+        setLoadFailed(true)
+      } finally {
         setSyncing(false)
-        return
-      }
-
-      // Build DB map
-      const dbMap: TrekMap = {}
-      for (const row of data ?? []) {
-        dbMap[row.trek_id] = row.status as TrekStatus
-      }
-
-      // Merge pending localStorage items → Supabase (on first login)
-      const pending = readLS()
-      const toUpsert = Object.entries(pending).map(([trek_id, status]) => ({
-        user_id: user.id,
-        trek_id,
-        status,
-      }))
-
-      if (toUpsert.length > 0) {
-        await supabase
-          .from('saved_treks')
-          .upsert(toUpsert, { onConflict: 'user_id,trek_id' })
-        writeLS({}) // clear after sync
-        // Re-merge
-        for (const { trek_id, status } of toUpsert) {
-          dbMap[trek_id] = status
-        }
       }
-
-      setTrekMap(dbMap)
-      setSyncing(false)
     }
 
     load()
   }, [isLoggedIn, user])
 
+  useEffect(() => {
+    const onChange = (e: Event) => setTrekMap(prev => applyChange(prev, (e as CustomEvent<ChangeDetail>).detail))
+    window.addEventListener(CHANGE_EVENT, onChange)
+    return () => window.removeEventListener(CHANGE_EVENT, onChange)
+  }, [])
+
   // ── Toggle status ────────────────────────────────────────────────────────
   const toggle = useCallback(async (trekId: string, status: TrekStatus) => {
     const current = trekMap[trekId]
     const next = current === status ? null : status // tap same = remove
 
-    // Optimistic local update
-    setTrekMap(prev => {
-      const updated = { ...prev }
-      if (next === null) delete updated[trekId]
-      else updated[trekId] = next
-      return updated
-    })
+    // Optimistic local update — this instance and every other one
+    window.dispatchEvent(new CustomEvent<ChangeDetail>(CHANGE_EVENT, { detail: { trekId, status: next } }))
 
     if (!isLoggedIn || !user) {
       // Anonymous: persist to localStorage
@@ -110,17 +131,16 @@ export function useTrekList() {
       return
     }
 
-    // Logged in: sync to Supabase
-    if (next === null) {
-      await supabase
-        .from('saved_treks')
-        .delete()
-        .match({ user_id: user.id, trek_id: trekId })
-    } else {
-      await supabase
-        .from('saved_treks')
-        .upsert({ user_id: user.id, trek_id: trekId, status: next },
-                 { onConflict: 'user_id,trek_id' })
+    // Logged in: sync to the cloud, undoing the optimistic update if that fails
+    try {
+      if (next === null) {
+        await cloudStore.deleteSavedTrek(user.id, trekId)
+      } else {
+        await cloudStore.upsertSavedTreks(user.id, [{ trekId, status: next }])
+      }
+    } catch (err) {
+      console.error('[useTrekList] save failed:', err)
+      window.dispatchEvent(new CustomEvent<ChangeDetail>(CHANGE_EVENT, { detail: { trekId, status: current ?? null } }))
     }
   }, [trekMap, isLoggedIn, user])
 
@@ -134,5 +154,5 @@ export function useTrekList() {
     wishlist:   Object.values(trekMap).filter(s => s === 'wishlist').length,
   }
 
-  return { trekMap, getStatus, toggle, counts, syncing }
+  return { trekMap, getStatus, toggle, counts, syncing, loaded, loadFailed }
 }
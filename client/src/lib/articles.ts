@@ -12,6 +12,7 @@ export interface ArticleMeta {
   category: string;
   readTime: string;
   publishedAt: string;
+  updatedAt?: string;
   featured: boolean;
   relatedTreks: string[];
 }
@@ -35,8 +36,17 @@ export function getArticlesByCategory(category: string): ArticleMeta[] {
 // Avoids Cloudflare Pages static file serving issues entirely.
 import ARTICLE_CONTENT from '@/data/articleContent';
 
+// Some entries in articleContent.ts were pasted in as { slug, title, …, content }
+// objects rather than markdown strings — accept both.
+export function getArticleContent(slug: string): string | null {
+  const entry: unknown = ARTICLE_CONTENT[slug];
+  if (typeof entry === 'string') return entry;
+  const content = (entry as { content?: unknown } | undefined)?.content;
+  return typeof content === 'string' ? content : null;
+}
+
 export async function loadArticleContent(slug: string): Promise<string | null> {
-  return ARTICLE_CONTENT[slug] ?? null;
+  return getArticleContent(slug);
 }
 
 // Simple markdown to HTML converter for rendering articles.
@@ -0,0 +1,184 @@
+// client/src/lib/cloudStore.ts
+// Cloud persistence for signed-in users — saved trek statuses and preferences.
+//
+// Two interchangeable backends, chosen at build time:
+//   VITE_CLOUD_BACKEND=api  → TrekMind Express API (server/auth.ts + /api/saved-treks,
+//                             /api/preferences), session cookie auth
+//   unset / anything else   → Supabase tables saved_treks / user_preferences
+//                             (columns added since: supabase/migrations/)
+//
+// useTrekList, useIntroSeen, useFilterPresets and useFinderSessions only talk
+// to `cloudStore`, so switching backend needs no hook changes. Both backends
+// resolve to the same shapes.
+
+import { api, buildUrl } from '@shared/routes'
+import type { SavedTrek as ApiSavedTrek, UserPreferences as ApiPreferences, FilterPreset, FinderSession } from '@shared/schema'
+import { supabase, type TrekStatus } from '@/lib/supabaseClient'
+
+export type CloudBackend = 'api' | 'supabase'
+
+export const CLOUD_BACKEND: CloudBackend =
+  import.meta.env.VITE_CLOUD_BACKEND === 'api' ? 'api' : 'supabase'
+
+export type TrekStatusMap = Record<string, TrekStatus>
+
+export interface CloudPreferences {
+  hasSeenIntro: boolean
+  // null = this list couldn't be read — callers must not overwrite it
+  filterPresets: FilterPreset[] | null
+  finderSessions: FinderSession[] | null
+}
+
+// What a user without a preferences row has
+const DEFAULT_PREFERENCES: CloudPreferences = { hasSeenIntro: false, filterPresets: [], finderSessions: [] }
+
+export interface SavedTrekEntry {
+  trekId: string
+  status: TrekStatus
+}
+
+export interface CloudStore {
+  /** null = backend unavailable or request failed */
+  fetchSavedTreks(userId: string): Promise<TrekStatusMap | null>
+  upsertSavedTreks(userId: string, entries: SavedTrekEntry[]): Promise<void>
+  deleteSavedTrek(userId: string, trekId: string): Promise<void>
+  /** null = backend unavailable or request failed; no row yet = the defaults */
+  fetchPreferences(userId: string): Promise<CloudPreferences | null>
+  /** Rejects when the write fails */
+  updatePreferences(userId: string, prefs: Partial<CloudPreferences>): Promise<void>
+}
+
+// ── Express API backend ─────────────────────────────────────────────────────
+// userId is implied by the session cookie, so the argument is unused here.
+
+async function apiFetch(method: string, path: string, body?: unknown): Promise<Response> {
+  const res = await fetch(path, {
+    method,
+    credentials: 'include',
+    headers: body !== undefined ? { 'Content-Type': 'application/json' } : {},
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  })
+  if (!res.ok) throw new Error(`${method} ${path} → ${res.status}`)
+  return res
+}
+
+const apiStore: CloudStore = {
+  async fetchSavedTreks() {
+    try {
+      const rows: ApiSavedTrek[] = await (await apiFetch('GET', api.savedTreks.list.path)).json()
+      const map: TrekStatusMap = {}
+      for (const row of rows) map[row.trekId] = row.status as TrekStatus
+      return map
+    } catch (err) {
+      console.error('[cloudStore] fetch saved treks:', err)
+      return null
+    }
+  },
+
+  async upsertSavedTreks(_userId, entries) {
+    if (entries.length === 0) return
+    await apiFetch('PUT', api.savedTreks.upsert.path, entries)
+  },
+
+  async deleteSavedTrek(_userId, trekId) {
+    await apiFetch('DELETE', buildUrl(api.savedTreks.delete.path, { trekId: encodeURIComponent(trekId) }))
+  },
+
+  async fetchPreferences() {
+    try {
+      const prefs: ApiPreferences | null = await (await apiFetch('GET', api.preferences.get.path)).json()
+      return prefs
+        ? { hasSeenIntro: prefs.hasSeenIntro, filterPresets: prefs.filterPresets ?? [], finderSessions: prefs.finderSessions ?? [] }
+        : DEFAULT_PREFERENCES
+    } catch (err) {
+      console.error('[cloudStore] fetch preferences:', err)
+      return null
+    }
+  },
+
+  async updatePreferences(_userId, prefs) {
+    await apiFetch('PUT', api.preferences.update.path, prefs)
+  },
+}
+
+// ── Supabase backend ────────────────────────────────────────────────────────
+// supabase is null when its env vars are missing — every call degrades to a
+// no-op / null rather than throwing.
+
+// One user_preferences column, read on its own so a column missing from an
+// older database only loses that setting. undefined = no row yet.
+async function selectPreference<T>(userId: string, column: string): Promise<{ value?: T } | null> {
+  if (!supabase) return null
+  const { data, error } = await supabase
+    .from('user_preferences')
+    .select(column)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) {
+    console.error(`[cloudStore] fetch preference ${column}:`, error)
+    return null
+  }
+  return { value: (data as Record<string, T> | null)?.[column] }
+}
+
+const supabaseStore: CloudStore = {
+  async fetchSavedTreks(userId) {
+    if (!supabase) return null
+    const { data, error } = await supabase
+      .from('saved_treks')
+      .select('trek_id, status')
+      .eq('user_id', userId)
+    if (error) {
+      console.error('[cloudStore] fetch saved treks:', error)
+      return null
+    }
+    const map: TrekStatusMap = {}
+    for (const row of data ?? []) map[row.trek_id] = row.status as TrekStatus
+    return map
+  },
+
+  async upsertSavedTreks(userId, entries) {
+    if (!supabase || entries.length === 0) return
+    await supabase
+      .from('saved_treks')
+      .upsert(entries.map(e => ({ user_id: userId, trek_id: e.trekId, status: e.status })),
+              { onConflict: 'user_id,trek_id' })
+  },
+
+  async deleteSavedTrek(userId, trekId) {
+    if (!supabase) return
+    await supabase
+      .from('saved_treks')
+      .delete()
+      .match({ user_id: userId, trek_id: trekId })
+  },
+
+  async fetchPreferences(userId) {
+    const [intro, presets, sessions] = await Promise.all([
+      selectPreference<boolean>(userId, 'has_seen_intro'),
+      selectPreference<FilterPreset[]>(userId, 'filter_presets'),
+      selectPreference<FinderSession[]>(userId, 'finder_sessions'),
+    ])
+    if (!intro) return null
+    // Row may not exist yet (trigger handles creation)
+    return {
+      hasSeenIntro: intro.value ?? false,
+      filterPresets: presets ? presets.value ?? [] : null,
+      finderSessions: sessions ? sessions.value ?? [] : null,
+    }
+  },
+
+  async updatePreferences(userId, prefs) {
+    if (!supabase) return
+    const row: Record<string, unknown> = { user_id: userId, updated_at: new Date().toISOString() }
+    if (prefs.hasSeenIntro !== undefined) row.has_seen_intro = prefs.hasSeenIntro
+    if (prefs.filterPresets) row.filter_presets = prefs.filterPresets
+    if (prefs.finderSessions) row.finder_sessions = prefs.finderSessions
+    const { error } = await supabase
+      .from('user_preferences')
+      .upsert(row, { onConflict: 'user_id' })
+    if (error) throw error
+  },
+}
+
+export const cloudStore: CloudStore = CLOUD_BACKEND === 'api' ? apiStore : supabaseStore
@@ -0,0 +1,133 @@
+// lib/did-you-mean.ts
+// "Did you mean …?" for URLs that don't resolve. The unknown slug is compared
+// against every trek (id, name and legacy slugs), country and region; the
+// pages it suggests are the not-found page's links. Misses are reported via
+// analytics so recurring ones can become aliases in shared/trekAliases.ts.
+
+import { getTrekAliases } from '@shared/trekAliases';
+import { trackEvent } from './analytics';
+import { getAllCountries, getAllRegions, toSlug } from './seo-pages';
+import { getAllTreks } from './treks';
+
+export type SuggestionKind = 'trek' | 'country' | 'region';
+
+export interface Suggestion {
+  kind: SuggestionKind;
+  label: string;
+  href: string;
+  score: number;
+}
+
+// Below this a match is noise ("w" vs "whw"), not a likely typo
+const MIN_SCORE = 0.55;
+
+interface Candidate {
+  kind: SuggestionKind;
+  label: string;
+  href: string;
+  keys: string[];
+}
+
+let _candidates: Candidate[] | null = null;
+
+function candidates(): Candidate[] {
+  _candidates ??= [
+    ...getAllTreks().map((t) => ({
+      kind: 'trek' as const,
+      label: t.name,
+      href: `/trek/${t.id}`,
+      keys: [t.id, toSlug(t.name), ...getTrekAliases(t.id)],
+    })),
+    ...getAllCountries().map((c) => ({
+      kind: 'country' as const,
+      label: c.name,
+      href: `/treks/country/${c.slug}`,
+      keys: [c.slug],
+    })),
+    ...getAllRegions().map((r) => ({
+      kind: 'region' as const,
+      label: r.name,
+      href: `/treks/region/${r.slug}`,
+      keys: [r.slug],
+    })),
+  ];
+  return _candidates;
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+// Words that say nothing about which trek is meant
+const STOP_WORDS = new Set(['trek', 'trekking', 'trail', 'hike', 'walk', 'the', 'and', 'of']);
+
+// "Tour_du-Mont%20Blanc" → ["tour", "du", "mont", "blanc"]
+function tokens(slug: string): string[] {
+  let text = slug;
+  try {
+    text = decodeURIComponent(slug);
+  } catch {
+    // malformed escape — match the raw slug
+  }
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+// 1 for the same word, 0.75 for a typo of it (one edit per five letters)
+function tokenMatch(a: string, b: string): number {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) < 4) return 0;
+  return levenshtein(a, b) <= Math.floor(Math.max(a.length, b.length) / 5) ? 0.75 : 0;
+}
+
+// 0–1: edit distance over the whole slug, or — when higher — blended with how
+// many words the two share, so "anapurna-circut", "everest-trek" and
+// "gr20-corsica" all find their trek.
+function similarity(query: string[], key: string): number {
+  const keyTokens = tokens(key);
+  const a = query.join('');
+  const b = keyTokens.join('');
+  if (!a || !b) return 0;
+  const edit = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+
+  const words = query.filter((q) => !STOP_WORDS.has(q));
+  const keyWords = keyTokens.filter((k) => !STOP_WORDS.has(k));
+  if (words.length === 0 || keyWords.length === 0) return edit;
+  const matched = words.reduce((sum, q) => sum + Math.max(...keyWords.map((k) => tokenMatch(q, k))), 0);
+  const overlap = matched / Math.min(words.length, keyWords.length);
+  return Math.max(edit, 0.4 * edit + 0.6 * Math.min(overlap, 1));
+}
+
+// Best matches for an unknown slug, highest score first
+export function suggestPages(slug: string, limit = 5): Suggestion[] {
+  const query = tokens(slug);
+  if (query.length === 0) return [];
+  return candidates()
+    .map(({ keys, ...c }) => ({ ...c, score: Math.max(...keys.map((k) => similarity(query, k))) }))
+    .filter((s) => s.score >= MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+// Reported once per slug per page load
+const _reported = new Set<string>();
+
+export function reportUnresolvedSlug(path: string, suggestions: Suggestion[]): void {
+  if (_reported.has(path)) return;
+  _reported.add(path);
+  console.warn(`[not-found] ${path}${suggestions[0] ? ` (closest: ${suggestions[0].href})` : ''}`);
+  trackEvent('unresolved_slug', {
+    path,
+    top_suggestion: suggestions[0]?.href ?? '',
+    suggestion_count: suggestions.length,
+  });
+}
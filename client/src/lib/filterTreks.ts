@@ -2,7 +2,10 @@
 // Tier 4 = Thru-hike ("Thru" duration bucket)
 // Tier 5 = Trekking Peaks (normal Short/Medium/Long duration buckets)
 
-interface Filters {
+import { parseAltitude, parseDistanceKm } from "@shared/itinerary";
+import type { NumericRange, RangeKey } from "../types/filters";
+
+interface Filters extends Partial<Record<RangeKey, NumericRange>> {
   tier?: string | number | null | string[];
   region?: string | null | string[];
   accommodation?: string | null | string[];
@@ -119,6 +122,16 @@ export function filterTreks(treks: any[], filters: Filters): any[] {
     if (filters.difficulty && filters.difficulty !== "ALL") {
       if ((trek.difficulty || "").toLowerCase() !== filters.difficulty.toLowerCase()) return false;
     }
+    // ── Numeric ranges (altitude, distance, days, cost) ───────────────────────
+    // A trek whose figure can't be read passes, like a trek with no budget
+    for (const key of RANGE_KEYS) {
+      const range = filters[key];
+      if (range?.min == null && range?.max == null) continue;
+      const value = getTrekRange(trek, key);
+      if (!value) continue;
+      if (range.min != null && value[1] < range.min) return false;
+      if (range.max != null && value[0] > range.max) return false;
+    }
     // ── Month ─────────────────────────────────────────────────────────────────
     if (filters.month && filters.month !== "ALL") {
       if (Array.isArray(filters.month)) {
@@ -143,6 +156,33 @@ export function filterTreks(treks: any[], filters: Filters): any[] {
   });
 }
 
+const RANGE_KEYS: RangeKey[] = ["altitude", "distance", "days", "cost"];
+
+// [low, high] of a trek's figure for a range filter, null when unknown.
+// Cost is a span (costIndependent.usd), so a range matches when they overlap;
+// the rest are single values. Numeric fields win over the display strings.
+export function getTrekRange(trek: any, key: RangeKey): [number, number] | null {
+  let value: number | null = null;
+  switch (key) {
+    case "altitude":
+      value = trek.maxAltitudeM ?? parseAltitude(trek.maxAltitude);
+      break;
+    case "distance":
+      value = trek.distanceKm ?? parseDistanceKm(trek.distance);
+      break;
+    case "days": {
+      const match = String(trek.durationDays ?? trek.totalDays ?? "").match(/\d+/);
+      value = match ? parseInt(match[0], 10) : null;
+      break;
+    }
+    case "cost": {
+      const usd = trek.costIndependent?.usd;
+      return Array.isArray(usd) && usd.length === 2 ? [usd[0], usd[1]] : null;
+    }
+  }
+  return value == null || isNaN(value) ? null : [value, value];
+}
+
 function getDurationBucket(totalDays: string | number | undefined, tier?: number): string {
   if (tier === 4) return "Thru";
   const match = String(totalDays || "").match(/\d+/);
@@ -0,0 +1,263 @@
+// lib/finder-query.ts
+// Offline, rule-based reading of a free-text Trek Finder query:
+//
+//   "10 days teahouse trek in Nepal in October under 4500m, not too crowded"
+//     → prefs        duration: medium · accommodation: lodges · vibe: remote
+//     → constraints  country: Nepal · month: 10 · maxAltitude: 4500
+//
+// Prefs are the quiz answers the page's scoreTrek() already weighs; the
+// constraints are hard limits applied before scoring (getTopMatches). Anything
+// the text doesn't mention stays unset. No network, no model — just patterns.
+
+import { MONTHS, getAllCountries } from './seo-pages';
+
+export interface Prefs {
+  duration:      'short' | 'medium' | 'long' | 'epic' | '';
+  experience:    'beginner' | 'intermediate' | 'experienced' | 'expert' | 'alpinist' | '';
+  altitude:      'low' | 'moderate' | 'high' | 'extreme' | '';
+  accommodation: 'lodges' | 'camping' | 'either' | '';
+  region:        string;
+  vibe:          'iconic' | 'remote' | 'scenic' | 'cultural' | 'summit' | '';
+}
+
+export const EMPTY_PREFS: Prefs = {
+  duration: '', experience: '', altitude: '',
+  accommodation: '', region: '', vibe: '',
+};
+
+export type BudgetLevel = 'Low' | 'Medium' | 'High';
+
+export interface FinderConstraints {
+  month?:       number;      // 1–12, trek must be in season
+  country?:     string;      // as in getAllCountries()
+  maxAltitude?: number;      // metres
+  budget?:      BudgetLevel; // trek budget at or below this
+  maxCostUsd?:  number;      // cheapest independent cost at or below this
+}
+
+export interface ParsedQuery {
+  prefs: Prefs;
+  constraints: FinderConstraints;
+}
+
+export const BUDGET_LEVELS: BudgetLevel[] = ['Low', 'Medium', 'High'];
+
+// ── URL encoding ─────────────────────────────────────────────────────────────
+
+export const CONSTRAINT_PARAMS = ['month', 'country', 'maxAlt', 'budget', 'maxCost'] as const;
+
+export function setConstraintParams(params: URLSearchParams, c: FinderConstraints): URLSearchParams {
+  CONSTRAINT_PARAMS.forEach((key) => params.delete(key));
+  if (c.month) params.set('month', String(c.month));
+  if (c.country) params.set('country', c.country);
+  if (c.maxAltitude) params.set('maxAlt', String(c.maxAltitude));
+  if (c.budget) params.set('budget', c.budget.toLowerCase());
+  if (c.maxCostUsd) params.set('maxCost', String(c.maxCostUsd));
+  return params;
+}
+
+// Invalid values are dropped
+export function constraintsFromParams(params: URLSearchParams): FinderConstraints {
+  const c: FinderConstraints = {};
+  const month = Number(params.get('month'));
+  if (Number.isInteger(month) && month >= 1 && month <= 12) c.month = month;
+  const country = params.get('country')?.toLowerCase();
+  const match = country ? getAllCountries().find((x) => x.name.toLowerCase() === country) : undefined;
+  if (match) c.country = match.name;
+  const maxAlt = Number(params.get('maxAlt'));
+  if (Number.isFinite(maxAlt) && maxAlt > 0) c.maxAltitude = Math.round(maxAlt);
+  const budget = BUDGET_LEVELS.find((b) => b.toLowerCase() === params.get('budget')?.toLowerCase());
+  if (budget) c.budget = budget;
+  const maxCost = Number(params.get('maxCost'));
+  if (Number.isFinite(maxCost) && maxCost > 0) c.maxCostUsd = Math.round(maxCost);
+  return c;
+}
+
+// ── Parser ───────────────────────────────────────────────────────────────────
+
+const NUMBER_WORDS: Record<string, number> = {
+  a: 1, an: 1, one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7,
+  eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12, fourteen: 14, twenty: 20,
+};
+
+function toNumber(raw: string): number {
+  return NUMBER_WORDS[raw] ?? parseFloat(raw.replace(/,/g, ''));
+}
+
+// Lowercase, accents and curly quotes removed, padded so \b matches at the ends
+function normalise(text: string): string {
+  return ` ${text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[’‘]/g, "'")} `;
+}
+
+const has = (text: string, pattern: RegExp) => pattern.test(text);
+
+function durationBucket(days: number): Prefs['duration'] {
+  if (days <= 5) return 'short';
+  if (days <= 10) return 'medium';
+  if (days <= 18) return 'long';
+  return 'epic';
+}
+
+const NUM = String.raw`(\d[\d,]*(?:\.\d+)?|a|an|one|two|three|four|five|six|seven|eight|nine|ten|eleven|twelve|fourteen|twenty)`;
+const UNDER = String.raw`(?:under|below|less than|max(?:imum)?|up to|at most|no (?:more|higher) than|<)`;
+
+// Removes what a rule consumed, so "under $2000" isn't read again as an altitude
+function take(state: { text: string }, pattern: RegExp): RegExpMatchArray | null {
+  const match = state.text.match(pattern);
+  if (match) state.text = state.text.replace(match[0], ' ');
+  return match;
+}
+
+function parseBudget(state: { text: string }, c: FinderConstraints): void {
+  const cost =
+    take(state, new RegExp(String.raw`${UNDER}\s*(?:\$|usd\s*|us\$)\s*(\d[\d,]*)(k)?`)) ??
+    take(state, new RegExp(String.raw`${UNDER}\s*(\d[\d,]*)(k)?\s*(?:\$|usd|dollars|bucks)`)) ??
+    take(state, new RegExp(String.raw`(?:\$|usd\s*)(\d[\d,]*)(k)?\s*(?:budget|max|or less)`));
+  if (cost) {
+    c.maxCostUsd = toNumber(cost[1]) * (cost[2] ? 1000 : 1);
+    return;
+  }
+  if (has(state.text, /\b(cheap|cheapest|budget|affordable|low[- ]cost|inexpensive|shoestring)\b/)) c.budget = 'Low';
+  else if (has(state.text, /\b(mid[- ]range|moderate budget|mid budget)\b/)) c.budget = 'Medium';
+  else if (has(state.text, /\b(luxury|high[- ]end|splurge|comfortable budget)\b/)) c.budget = 'High';
+}
+
+// The first limit that reads as an altitude: "under 12 days, under 4000m" → 4000
+function findAltitudeLimit(text: string): { match: string; metres: number } | null {
+  const patterns = [
+    new RegExp(String.raw`${UNDER}\s*(\d[\d,]*(?:\.\d+)?)\s*(k|km|m|metres|meters|ft|feet)?\b`, 'g'),
+    /(\d[\d,]*(?:\.\d+)?)\s*(k|m|metres|meters|ft|feet)\s*(?:max(?:imum)?|or (?:lower|less)|tops)\b/g,
+  ];
+  for (const pattern of patterns) {
+    let limit: RegExpExecArray | null;
+    while ((limit = pattern.exec(text))) {
+      const value = toNumber(limit[1]);
+      const unit = limit[2] ?? '';
+      const metres =
+        unit === 'k' || unit === 'km' ? value * 1000 :
+        unit === 'ft' || unit === 'feet' ? value * 0.3048 :
+        value;
+      // A bare "under 12" is left for the day count
+      if (metres >= 500 && metres <= 9000) return { match: limit[0], metres };
+    }
+  }
+  return null;
+}
+
+function parseAltitude(state: { text: string }, prefs: Prefs, c: FinderConstraints): void {
+  const limit = findAltitudeLimit(state.text);
+  if (limit) {
+    c.maxAltitude = Math.round(limit.metres);
+    state.text = state.text.replace(limit.match, ' ');
+    return;
+  }
+  if (has(state.text, /\b(no|low|without|avoid(?:ing)?) (?:high )?altitude\b/)) prefs.altitude = 'low';
+  else if (has(state.text, /\b(extreme|very high|any) altitude\b|\b(8000|7000|6000)\s?m\b/)) prefs.altitude = 'extreme';
+  else if (has(state.text, /\bhigh[- ]altitude\b/)) prefs.altitude = 'high';
+  else if (has(state.text, /\bmoderate altitude\b/)) prefs.altitude = 'moderate';
+}
+
+function parseDuration(state: { text: string }, prefs: Prefs): void {
+  const range = take(state, new RegExp(String.raw`\b${NUM}\s*(?:-|–|to|and)\s*${NUM}\s*(days?|nights?|weeks?)\b`));
+  // "10d" only after digits — "and" is not "an" + "d"
+  const single = range ??
+    take(state, /\b(\d+)[- ]?(days?|d|nights?|weeks?)\b/) ??
+    take(state, new RegExp(String.raw`\b${NUM}[- ](days?|nights?|weeks?)\b`));
+  let days: number | null = null;
+  if (range) {
+    const unit = range[3];
+    days = ((toNumber(range[1]) + toNumber(range[2])) / 2) * (unit.startsWith('week') ? 7 : 1);
+  } else if (single) {
+    const n = toNumber(single[1]);
+    const unit = single[2];
+    days = unit.startsWith('week') ? n * 7 : unit.startsWith('night') ? n + 1 : n;
+  } else if (has(state.text, /\bfortnight\b/)) {
+    days = 14;
+  } else if (has(state.text, /\bweekend\b/)) {
+    days = 2;
+  }
+  if (days) {
+    prefs.duration = durationBucket(days);
+    return;
+  }
+  if (has(state.text, /\b(thru[- ]?hike|long[- ]distance|months? long|epic)\b/)) prefs.duration = 'epic';
+  else if (has(state.text, /\b(short|quick|few days)\b/)) prefs.duration = 'short';
+}
+
+// "may" only counts after a preposition — "may be busy" isn't a month
+function parseMonth(text: string, c: FinderConstraints): void {
+  for (const { month, slug } of MONTHS) {
+    const short = slug.slice(0, 3);
+    const pattern = slug === 'may'
+      ? /\b(in|during|for|this|next|early|late|mid)[- ]may\b/
+      : new RegExp(String.raw`\b(${slug}|${short}${short === 'sep' ? 't?' : ''})\b`);
+    if (pattern.test(text)) {
+      c.month = month;
+      return;
+    }
+  }
+}
+
+const REGION_WORDS: [RegExp, string][] = [
+  [/\b(himalaya|himalayas|himalayan)\b/, 'himalaya'],
+  [/\b(asia|asian)\b/, 'himalaya'],
+  [/\b(europe|european|alps|alpine europe|dolomites|pyrenees|scandinavia)\b/, 'europe'],
+  [/\b(south america|andes|patagonia)\b/, 'south america'],
+  [/\b(north america|rockies|sierra nevada)\b/, 'north america'],
+  [/\b(africa|african)\b/, 'africa'],
+  [/\b(oceania)\b/, 'oceania'],
+  [/\b(anywhere|worldwide|any region|whole world)\b/, 'anywhere'],
+];
+
+function parsePlace(text: string, prefs: Prefs, c: FinderConstraints): void {
+  // Longest names first: "Papua New Guinea" before "Guinea"
+  const countries = getAllCountries().map((x) => x.name).sort((a, b) => b.length - a.length);
+  const country = countries.find((name) => new RegExp(String.raw`\b${normalise(name).trim().replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}\b`).test(text));
+  if (country) {
+    c.country = country;
+    return;
+  }
+  const region = REGION_WORDS.find(([pattern]) => pattern.test(text));
+  if (region) prefs.region = region[1];
+}
+
+function parseAccommodation(text: string, prefs: Prefs): void {
+  if (has(text, /\b(no|without|not) (camping|tents?|camp)\b/)) prefs.accommodation = 'lodges';
+  else if (has(text, /\b(camping or (lodges?|huts?)|(lodges?|huts?|teahouses?) or camping|either)\b/)) prefs.accommodation = 'either';
+  else if (has(text, /\b(tea ?houses?|lodges?|huts?|refuges?|rifugios?|guesthouses?|hotels?|b&b|homestays?|albergues?|gites?|inns?)\b/)) prefs.accommodation = 'lodges';
+  else if (has(text, /\b(camping|camp|tents?|wild camp|backpacking|bivvy|bivouac)\b/)) prefs.accommodation = 'camping';
+}
+
+function parseExperience(text: string, prefs: Prefs): void {
+  if (has(text, /\b(alpinis[mt]|mountaineering|crampons?|ice axe|roped)\b/)) prefs.experience = 'alpinist';
+  else if (has(text, /\b(expert|very (hard|difficult|challenging)|technical|extreme difficulty)\b/)) prefs.experience = 'expert';
+  else if (has(text, /\b(experienced|challenging|hard|strenuous|tough|difficult|demanding)\b/)) prefs.experience = 'experienced';
+  else if (has(text, /\b(intermediate|some experience|moderately (fit|difficult|challenging)|moderate difficulty)\b/)) prefs.experience = 'intermediate';
+  else if (has(text, /\b(beginners?|novice|first (multi[- ]day )?(trek|hike)|never trekked|easy|gentle|family)\b/)) prefs.experience = 'beginner';
+}
+
+function parseVibe(text: string, prefs: Prefs): void {
+  if (has(text, /\b(not (too |very |that )?(crowded|busy|touristy)|uncrowded|less crowded|fewer (people|crowds)|quiet|remote|off the beaten (track|path)|solitude|hidden gem|crowd[- ]free|no crowds)\b/)) prefs.vibe = 'remote';
+  else if (has(text, /\b(summit|climb a peak|trekking peak|peak bagging)\b/)) prefs.vibe = 'summit';
+  else if (has(text, /\b(cultur(e|al)|villages?|monaster(y|ies)|temples?|local life)\b/)) prefs.vibe = 'cultural';
+  else if (has(text, /\b(scenic|scenery|views?|glaciers?|landscapes?|dramatic)\b/)) prefs.vibe = 'scenic';
+  else if (has(text, /\b(iconic|famous|bucket[- ]list|classic|must[- ]do|best known)\b/)) prefs.vibe = 'iconic';
+}
+
+export function parseFinderQuery(query: string): ParsedQuery {
+  const prefs: Prefs = { ...EMPTY_PREFS };
+  const constraints: FinderConstraints = {};
+  // Numeric rules consume their match; the word rules read what's left
+  const state = { text: normalise(query) };
+
+  parseBudget(state, constraints);
+  parseAltitude(state, prefs, constraints);
+  parseDuration(state, prefs);
+  parseMonth(state.text, constraints);
+  parsePlace(state.text, prefs, constraints);
+  parseAccommodation(state.text, prefs);
+  parseExperience(state.text, prefs);
+  parseVibe(state.text, prefs);
+
+  return { prefs, constraints };
+}
@@ -0,0 +1,38 @@
+// client/src/lib/prerender.ts
+// Data handed from a prerendered page (script/prerender.ts) to the client.
+// Anything the server render read asynchronously is embedded in the HTML as
+// JSON, and primed into the client caches before hydrateRoot() so the first
+// client render matches the server markup.
+
+import type { ItineraryFile } from '@shared/itinerary'
+import { primeItineraryFile } from '@/lib/treks'
+
+export const PRERENDER_DATA_ID = 'prerender-data'
+
+export interface PrerenderData {
+  // trek id → its itinerary file (null when the trek has none)
+  itineraries: Record<string, ItineraryFile | null>
+}
+
+export function primePrerenderData(data: PrerenderData): void {
+  for (const [trekId, file] of Object.entries(data.itineraries)) {
+    primeItineraryFile(trekId, file)
+  }
+}
+
+// <script type="application/json"> body; `<` is escaped so the JSON can't
+// close the script element early.
+export function serializePrerenderData(data: PrerenderData): string {
+  return JSON.stringify(data).replace(/</g, '\\u003c')
+}
+
+export function readPrerenderData(): PrerenderData | null {
+  const el = document.getElementById(PRERENDER_DATA_ID)
+  if (!el?.textContent) return null
+  try {
+    return JSON.parse(el.textContent) as PrerenderData
+  } catch {
+    console.warn('[prerender] Ignoring unreadable prerender data')
+    return null
+  }
+}
@@ -0,0 +1,61 @@
+// client/src/lib/routeDownload.ts
+// Route downloads on TrekDetail (GPX, KML, GeoJSON). Files are built in the
+// browser from the static itinerary JSON so they work on the static deploy
+// too; /api/treks/:id/route.{gpx,kml,geojson} serve the same output via
+// shared/routeExport.ts.
+
+import { normalizeItineraryDay, normalizeWaypoints, type ItineraryIssue } from '@shared/itinerary'
+import { ROUTE_FORMATS, hasRouteData, type RouteFormat, type TrekRoute } from '@shared/routeExport'
+import { getItineraryFileAsync, type Trek } from '@/lib/treks'
+
+export async function loadTrekRoute(trek: Trek): Promise<TrekRoute | null> {
+  const file = await getItineraryFileAsync(trek.id)
+  if (!file) return null
+
+  // Parse problems are reported by script/check-data.ts, not here
+  const issues: ItineraryIssue[] = []
+  const days = file.itinerary.flatMap((raw) => {
+    const day = normalizeItineraryDay(raw, trek.id, issues)
+    return day ? [day] : []
+  })
+
+  return {
+    slug: trek.id,
+    name: trek.name,
+    description: `${trek.region}, ${trek.country}`,
+    days: days.map((d) => ({
+      dayNumber:      d.dayNumber,
+      title:          d.title,
+      description:    d.description,
+      overnight:      d.overnight ?? null,
+      distanceKm:     d.distanceKm ?? null,
+      altitudeM:      d.altitudeM ?? null,
+      elevationGainM: d.elevationGainM ?? null,
+      elevationLossM: d.elevationLossM ?? null,
+      latitude:       d.latitude ?? null,
+      longitude:      d.longitude ?? null,
+    })),
+    waypoints: normalizeWaypoints(file.waypoints),
+  }
+}
+
+function saveFile(contents: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }))
+  const a = document.createElement('a')
+  a.href = url
+  a.download = filename
+  document.body.appendChild(a)
+  a.click()
+  a.remove()
+  // Revoke on the next tick — some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+/** false when the trek has no itinerary file or no coordinates in it */
+export async function downloadRoute(trek: Trek, format: RouteFormat): Promise<boolean> {
+  const route = await loadTrekRoute(trek)
+  if (!route || !hasRouteData(route)) return false
+  const { contentType, render } = ROUTE_FORMATS[format]
+  saveFile(render(route), `${trek.id}.${format}`, contentType)
+  return true
+}
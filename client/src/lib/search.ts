@@ -0,0 +1,321 @@
+// lib/search.ts
+// Typo-tolerant, ranked search over treks and articles.
+//
+// A trek is found by its name, country, region and terrain, its editorial
+// highlights / key features / "why special" text, and the names of its
+// overnight stops and waypoints; an article by its title and description.
+// Query words match index terms exactly, as a prefix ("anna" while typing) or
+// within an edit distance ("anapurna" → "annapurna"); each match is weighted by
+// the field it is in and by how rare the term is.
+//
+// The index is built at build time from every source (script/search-index.ts
+// → /data/search-index.json). Without that file — in dev — it is built in the
+// browser from the bundled catalog, editorial and article list, which lack
+// only the itinerary names.
+
+import articlesMetaRaw from '../data/articles-meta.json';
+import { normalizeItineraryDay, normalizeWaypoint, type ItineraryFile, type ItineraryIssue } from '@shared/itinerary';
+import type { ArticleMeta } from './articles';
+import { getAllTreks, getEditorialContent } from './treks';
+
+export const SEARCH_INDEX_PATH = '/data/search-index.json';
+
+// Bumped when the index format changes, so a stale cached file is rebuilt
+const INDEX_VERSION = 1;
+
+export type SearchField = 'name' | 'country' | 'region' | 'place' | 'highlight' | 'terrain' | 'about';
+
+const FIELD_WEIGHTS: Record<SearchField, number> = {
+  name: 10,
+  country: 6,
+  region: 4,
+  place: 4,
+  highlight: 3,
+  terrain: 2,
+  about: 1.5,
+};
+
+// Postings refer to fields by position in this list
+const SEARCH_FIELDS = Object.keys(FIELD_WEIGHTS) as SearchField[];
+
+export interface SearchDoc {
+  kind: 'trek' | 'article';
+  id: string;
+  title: string;
+  subtitle: string;
+  href: string;
+  image?: string; // trek imageFilename
+  boost: number; // 0–1 (popularity), breaks ties between equal matches
+  fields: Partial<Record<SearchField, string[]>>;
+}
+
+export interface SearchIndex {
+  version: number;
+  docs: SearchDoc[];
+  // term → [doc index, field index] for every field the term occurs in
+  terms: Record<string, [number, number][]>;
+}
+
+export interface SearchResult {
+  doc: SearchDoc;
+  score: number;
+  // Index terms the query matched — pass to highlightParts()
+  terms: string[];
+  // Where the match is, when it isn't in the title ("Thorong La" → a waypoint)
+  snippet?: { field: SearchField; text: string };
+}
+
+// ── Text ─────────────────────────────────────────────────────────────────────
+
+// Lowercase, accents removed: "Refúgio" → "refugio"
+function normalizeText(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return normalizeText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 || /\d/.test(t));
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+// ── Documents ────────────────────────────────────────────────────────────────
+
+function compact(values: unknown[]): string[] {
+  const seen = new Set<string>();
+  const out: string[] = [];
+  for (const v of values) {
+    const text = typeof v === 'string' ? v.trim() : '';
+    if (text && !seen.has(text.toLowerCase())) {
+      seen.add(text.toLowerCase());
+      out.push(text);
+    }
+  }
+  return out;
+}
+
+// Overnight stops and waypoint names from a trek's itinerary file
+function placeNames(trekId: string, file: ItineraryFile | null | undefined): string[] {
+  if (!file) return [];
+  const issues: ItineraryIssue[] = [];
+  return compact([
+    ...file.itinerary.map((raw) => normalizeItineraryDay(raw, trekId, issues)?.overnight),
+    ...(file.waypoints ?? []).map((raw) => normalizeWaypoint(raw)?.name),
+  ]);
+}
+
+// `itineraries` is trek id → itinerary file; treks without one are indexed
+// without place names.
+export function buildSearchDocs(itineraries: Record<string, ItineraryFile | null> = {}): SearchDoc[] {
+  const treks: SearchDoc[] = getAllTreks().map((trek) => {
+    const editorial = getEditorialContent(trek.id);
+    return {
+      kind: 'trek',
+      id: trek.id,
+      title: trek.name,
+      subtitle: [trek.country, trek.totalDays, trek.region].filter(Boolean).join(' • '),
+      href: `/trek/${trek.id}`,
+      image: trek.imageFilename,
+      boost: (trek.popularityScore ?? 0) / 10,
+      fields: {
+        // The id too: "tmb", "ebc", "w_trek"
+        name: compact([trek.name, trek.id.replace(/[-_]/g, ' ')]),
+        country: compact([trek.country]),
+        region: compact([trek.region]),
+        terrain: compact([trek.terrain]),
+        place: placeNames(trek.id, itineraries[trek.id]),
+        highlight: compact([...(editorial?.highlights ?? []), trek.keyFeatures]),
+        about: compact([editorial?.whySpecial]),
+      },
+    };
+  });
+
+  const articles: SearchDoc[] = (articlesMetaRaw as ArticleMeta[]).map((article) => ({
+    kind: 'article',
+    id: article.slug,
+    title: article.title,
+    subtitle: [article.category, article.readTime].filter(Boolean).join(' • '),
+    href: `/articles/${article.slug}`,
+    boost: article.featured ? 0.5 : 0,
+    fields: {
+      name: [article.title],
+      about: compact([article.description]),
+    },
+  }));
+
+  return [...treks, ...articles];
+}
+
+export function buildSearchIndex(docs: SearchDoc[]): SearchIndex {
+  const terms: Record<string, [number, number][]> = {};
+  docs.forEach((doc, d) => {
+    SEARCH_FIELDS.forEach((field, f) => {
+      const seen = new Set<string>();
+      for (const text of doc.fields[field] ?? []) {
+        for (const term of tokenize(text)) {
+          if (seen.has(term)) continue;
+          seen.add(term);
+          (terms[term] ??= []).push([d, f]);
+        }
+      }
+    });
+  });
+  return { version: INDEX_VERSION, docs, terms };
+}
+
+// ── Loading ──────────────────────────────────────────────────────────────────
+
+let _index: Promise<SearchIndex> | null = null;
+
+export function loadSearchIndex(): Promise<SearchIndex> {
+  _index ??= fetch(SEARCH_INDEX_PATH)
+    .then((res) => (res.ok ? res.json() : null))
+    .then((data: SearchIndex | null) => {
+      if (data?.version === INDEX_VERSION && Array.isArray(data.docs)) return data;
+      throw new Error('no prebuilt index');
+    })
+    .catch(() => buildSearchIndex(buildSearchDocs()));
+  return _index;
+}
+
+// ── Search ───────────────────────────────────────────────────────────────────
+
+// How well an index term matches a query word, 0 when it doesn't
+function termMatch(word: string, term: string): number {
+  if (term === word) return 1;
+  if (term.startsWith(word)) return 0.8;
+  if (word.length < 4) return 0;
+  const maxEdits = word.length >= 8 ? 2 : 1;
+  if (Math.abs(term.length - word.length) <= maxEdits) {
+    const edits = levenshtein(word, term);
+    if (edits <= maxEdits) return edits === 1 ? 0.6 : 0.45;
+  }
+  // Mistyped and still typing: "anapur" → "annapurna"
+  if (term.length > word.length && term[0] === word[0]) {
+    for (let len = word.length - 1; len <= word.length + 1; len++) {
+      if (levenshtein(word, term.slice(0, len)) <= 1) return 0.5;
+    }
+  }
+  return 0;
+}
+
+// term → number of documents containing it, per loaded index
+const _docFreq = new WeakMap<SearchIndex, Map<string, number>>();
+
+function docFrequencies(index: SearchIndex): Map<string, number> {
+  let freq = _docFreq.get(index);
+  if (!freq) {
+    freq = new Map();
+    for (const term of Object.keys(index.terms)) {
+      freq.set(term, new Set(index.terms[term].map(([d]) => d)).size);
+    }
+    _docFreq.set(index, freq);
+  }
+  return freq;
+}
+
+// The phrase outside the title with the most matched words (the higher-weight
+// field on a tie); long text is cut to the words around the first match.
+function findSnippet(doc: SearchDoc, terms: Set<string>): SearchResult['snippet'] {
+  const fields = SEARCH_FIELDS.filter((f) => f !== 'name').sort((a, b) => FIELD_WEIGHTS[b] - FIELD_WEIGHTS[a]);
+  let best: { field: SearchField; text: string; parts: ReturnType<typeof highlightParts>; count: number } | null = null;
+  for (const field of fields) {
+    for (const text of doc.fields[field] ?? []) {
+      const parts = highlightParts(text, terms);
+      const count = new Set(parts.filter((p) => p.match).map((p) => p.text.toLowerCase())).size;
+      if (count > (best?.count ?? 0)) best = { field, text, parts, count };
+    }
+  }
+  if (!best) return undefined;
+
+  const { field, text, parts } = best;
+  if (text.length <= 120) return { field, text };
+  const hit = parts.findIndex((p) => p.match);
+  const offset = parts.slice(0, hit).reduce((n, p) => n + p.text.length, 0);
+  const start = Math.max(0, text.lastIndexOf(' ', Math.max(0, offset - 50)) + 1);
+  const end = text.indexOf(' ', Math.min(text.length, offset + 70));
+  return {
+    field,
+    text: `${start > 0 ? '…' : ''}${text.slice(start, end === -1 ? undefined : end)}${end === -1 ? '' : '…'}`,
+  };
+}
+
+export function search(index: SearchIndex, query: string, limit = 10): SearchResult[] {
+  const words = Array.from(new Set(tokenize(query)));
+  if (words.length === 0) return [];
+
+  const docCount = index.docs.length;
+  const hits = new Map<number, { score: number; words: number; terms: Set<string> }>();
+
+  for (const word of words) {
+    // Best contribution of this word per document
+    const best = new Map<number, number>();
+    const matchedTerms = new Map<number, string[]>();
+    docFrequencies(index).forEach((df, term) => {
+      const quality = termMatch(word, term);
+      if (quality === 0) return;
+      const idf = Math.log(1 + docCount / df);
+      for (const [d, f] of index.terms[term]) {
+        const value = FIELD_WEIGHTS[SEARCH_FIELDS[f]] * quality * idf;
+        if (value > (best.get(d) ?? 0)) best.set(d, value);
+        const list = matchedTerms.get(d) ?? [];
+        list.push(term);
+        matchedTerms.set(d, list);
+      }
+    });
+    best.forEach((value, d) => {
+      const hit = hits.get(d) ?? { score: 0, words: 0, terms: new Set<string>() };
+      hit.score += value;
+      hit.words += 1;
+      matchedTerms.get(d)!.forEach((t) => hit.terms.add(t));
+      hits.set(d, hit);
+    });
+  }
+
+  const phrase = normalizeText(query.trim());
+  const results: SearchResult[] = [];
+  hits.forEach((hit, d) => {
+    const doc = index.docs[d];
+    // Documents matching every word first, then those containing the query as
+    // a phrase — in the title above anywhere else
+    let score = hit.score * (hit.words / words.length) ** 2;
+    if (normalizeText(doc.title).includes(phrase)) score *= 1.5;
+    else if (words.length > 1 && Object.values(doc.fields).some((texts) => texts?.some((t) => normalizeText(t).includes(phrase)))) score *= 1.25;
+    score += doc.boost;
+    results.push({ doc, score, terms: Array.from(hit.terms) });
+  });
+
+  return results
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((r) => {
+      // Only worth showing when the title doesn't explain the match
+      const titleTerms = new Set(tokenize(r.doc.title));
+      const elsewhere = new Set(r.terms.filter((t) => !titleTerms.has(t)));
+      return elsewhere.size > 0 ? { ...r, snippet: findSnippet(r.doc, elsewhere) } : r;
+    });
+}
+
+// ── Highlighting ─────────────────────────────────────────────────────────────
+
+// `text` split into runs, with `match` set on the words that are matched terms
+export function highlightParts(text: string, terms: Iterable<string>): { text: string; match: boolean }[] {
+  const termSet = terms instanceof Set ? (terms as Set<string>) : new Set(terms);
+  return text
+    .split(/([^a-zA-Z0-9\u00C0-\u024F]+)/)
+    .filter(Boolean)
+    .map((part) => ({ text: part, match: termSet.has(normalizeText(part)) }));
+}
@@ -4,33 +4,63 @@
 // automatically creates new region/country/category pages.
 
 import { getAllTreks } from './treks';
+import { parseSeasonMonths } from './filterTreks';
 
 // ── Continent mapping ─────────────────────────────────────────────────────────
 const COUNTRY_TO_CONTINENT: Record<string, string> = {
   // Asia
   Nepal: 'Asia', India: 'Asia', Bhutan: 'Asia', Pakistan: 'Asia',
   China: 'Asia', Japan: 'Asia', Kyrgyzstan: 'Asia', Georgia: 'Asia',
-  Russia: 'Asia', 'Hong Kong': 'Asia',
+  Russia: 'Asia', 'Hong Kong': 'Asia', Tajikistan: 'Asia', Indonesia: 'Asia',
+  Malaysia: 'Asia',
   // Middle East
   Jordan: 'Middle East', Turkey: 'Middle East', Israel: 'Middle East',
   // Europe
   France: 'Europe', Italy: 'Europe', Switzerland: 'Europe', Spain: 'Europe',
   Austria: 'Europe', Slovenia: 'Europe', Scotland: 'Europe', Portugal: 'Europe',
   Sweden: 'Europe', Norway: 'Europe', Iceland: 'Europe', Albania: 'Europe',
-  Montenegro: 'Europe', Corsica: 'Europe', UK: 'Europe',
+  Montenegro: 'Europe', Corsica: 'Europe', UK: 'Europe', 'United Kingdom': 'Europe',
+  England: 'Europe', Ireland: 'Europe', Germany: 'Europe', Monaco: 'Europe',
+  Croatia: 'Europe', Bosnia: 'Europe', Kosovo: 'Europe', Greenland: 'Europe',
   // South America
   Peru: 'South America', Chile: 'South America', Argentina: 'South America',
   Bolivia: 'South America', Colombia: 'South America', Ecuador: 'South America',
-  Venezuela: 'South America', Brazil: 'South America',
+  Venezuela: 'South America', Brazil: 'South America', Guyana: 'South America',
   // North America
   USA: 'North America', Canada: 'North America', Mexico: 'North America',
+  Guatemala: 'North America',
   // Africa
   Tanzania: 'Africa', Kenya: 'Africa', Ethiopia: 'Africa',
   'South Africa': 'Africa', Namibia: 'Africa', Uganda: 'Africa', Morocco: 'Africa',
   // Oceania
-  'New Zealand': 'Oceania', Australia: 'Oceania',
+  'New Zealand': 'Oceania', Australia: 'Oceania', 'Papua New Guinea': 'Oceania',
 };
 
+// ── Trek countries ────────────────────────────────────────────────────────────
+// treks.json stores cross-border routes in one string — "France, Switzerland",
+// "Switzerland/Italy", "Monaco / France / Italy / …" — and some single-country
+// entries carry a note: "China (Tibet)". Split into the individual countries.
+export function getTrekCountries(trek: { country?: string }): string[] {
+  const countries = (trek.country ?? '')
+    .replace(/\([^)]*\)/g, '')
+    .split(/\s*[,/&]\s*/)
+    .map(c => c.trim())
+    .filter(Boolean);
+  return Array.from(new Set(countries));
+}
+
+export function isCrossBorder(trek: { country?: string }): boolean {
+  return getTrekCountries(trek).length > 1;
+}
+
+// Continents of all the trek's countries, in the order they are listed
+function getTrekContinents(trek: { country?: string }): string[] {
+  const continents = getTrekCountries(trek)
+    .map(c => COUNTRY_TO_CONTINENT[c])
+    .filter((c): c is string => !!c);
+  return Array.from(new Set(continents));
+}
+
 // ── Slug helpers ──────────────────────────────────────────────────────────────
 export function toSlug(str: string): string {
   return str
@@ -65,7 +95,7 @@ export const DURATION_BRACKETS: DurationBracket[] = [
   { slug: '15-plus-day-treks', label: '15+ Day Treks', min: 15, max: 999, searchLabel: 'long distance treks' },
 ];
 
-function getTrekDays(trek: any): number {
+export function getTrekDays(trek: any): number {
   const raw = trek.totalDays ?? trek.durationDays ?? '';
   const match = String(raw).match(/\d+/);
   return match ? parseInt(match[0]) : 0;
@@ -81,6 +111,26 @@ export interface SEOPageData {
   treks: any[];
   breadcrumb: { label: string; href: string }[];
   relatedPages: { label: string; href: string }[];
+  // Optional: list the treks under headings instead of one list (month pages)
+  groups?: { label: string; treks: any[] }[];
+  // Optional: badge shown on a trek's card, by trek id
+  trekBadges?: Record<string, string>;
+  // Optional: narrower combination pages (continent × duration / tier)
+  refinePages?: { label: string; href: string }[];
+}
+
+// ── Trek breadcrumb ───────────────────────────────────────────────────────────
+// Home › continent › country › trek, linking the hub pages the trek appears on.
+// Cross-border treks use the first country listed.
+export function getTrekBreadcrumb(trek: { id: string; name: string; country: string }): SEOPageData['breadcrumb'] {
+  const [country] = getTrekCountries(trek);
+  const continent = country ? COUNTRY_TO_CONTINENT[country] : undefined;
+  return [
+    { label: 'Home', href: '/' },
+    ...(continent ? [{ label: continent, href: `/treks/continent/${toSlug(continent)}` }] : []),
+    ...(country ? [{ label: country, href: `/treks/country/${toSlug(country)}` }] : []),
+    { label: trek.name, href: `/trek/${trek.id}` },
+  ];
 }
 
 // ── Region pages ──────────────────────────────────────────────────────────────
@@ -102,7 +152,7 @@ export function getRegionPageData(slug: string): SEOPageData | null {
   if (regionTreks.length === 0) return null;
 
   const name = regionTreks[0].region;
-  const continent = COUNTRY_TO_CONTINENT[regionTreks[0].country] ?? 'the World';
+  const continent = getTrekContinents(regionTreks[0])[0] ?? 'the World';
 
   return {
     slug,
@@ -128,8 +178,7 @@ export function getAllCountries(): { slug: string; name: string; count: number }
   const treks = getAllTreks();
   const map: Record<string, number> = {};
   for (const t of treks) {
-    const c = t.country?.trim();
-    if (c) map[c] = (map[c] || 0) + 1;
+    for (const c of getTrekCountries(t)) map[c] = (map[c] || 0) + 1;
   }
   return Object.entries(map)
     .map(([name, count]) => ({ slug: toSlug(name), name, count }))
@@ -138,10 +187,10 @@ export function getAllCountries(): { slug: string; name: string; count: number }
 
 export function getCountryPageData(slug: string): SEOPageData | null {
   const treks = getAllTreks();
-  const countryTreks = treks.filter(t => toSlug(t.country ?? '') === slug);
+  const countryTreks = treks.filter(t => getTrekCountries(t).some(c => toSlug(c) === slug));
   if (countryTreks.length === 0) return null;
 
-  const name = countryTreks[0].country;
+  const name = getTrekCountries(countryTreks[0]).find(c => toSlug(c) === slug)!;
   const continent = COUNTRY_TO_CONTINENT[name] ?? 'the World';
 
   return {
@@ -168,8 +217,7 @@ export function getAllContinents(): { slug: string; name: string; count: number
   const treks = getAllTreks();
   const map: Record<string, number> = {};
   for (const t of treks) {
-    const cont = COUNTRY_TO_CONTINENT[t.country?.trim() ?? ''];
-    if (cont) map[cont] = (map[cont] || 0) + 1;
+    for (const cont of getTrekContinents(t)) map[cont] = (map[cont] || 0) + 1;
   }
   return Object.entries(map)
     .map(([name, count]) => ({ slug: toSlug(name), name, count }))
@@ -177,15 +225,13 @@ export function getAllContinents(): { slug: string; name: string; count: number
 }
 
 export function getContinentPageData(slug: string): SEOPageData | null {
-  const treks = getAllTreks();
-  const contTreks = treks.filter(t => {
-    const cont = COUNTRY_TO_CONTINENT[t.country?.trim() ?? ''];
-    return toSlug(cont ?? '') === slug;
-  });
+  const contTreks = getContinentTreks(slug);
   if (contTreks.length === 0) return null;
 
   const name = fromSlug(slug);
-  const countries = [...new Set(contTreks.map(t => t.country))];
+  const countries = Array.from(new Set(
+    contTreks.flatMap(t => getTrekCountries(t)).filter(c => toSlug(COUNTRY_TO_CONTINENT[c] ?? '') === slug),
+  ));
 
   return {
     slug,
@@ -201,9 +247,14 @@ export function getContinentPageData(slug: string): SEOPageData | null {
     relatedPages: getAllContinents()
       .filter(c => c.slug !== slug)
       .map(c => ({ label: c.name, href: `/treks/continent/${c.slug}` })),
+    refinePages: getCombinationPages({ continent: slug }).map(c => ({ label: c.label, href: c.href })),
   };
 }
 
+function getContinentTreks(slug: string): any[] {
+  return getAllTreks().filter(t => getTrekContinents(t).some(c => toSlug(c) === slug));
+}
+
 // ── Duration pages ────────────────────────────────────────────────────────────
 export function getDurationPageData(slug: string): SEOPageData | null {
   const bracket = DURATION_BRACKETS.find(b => b.slug === slug);
@@ -229,6 +280,7 @@ export function getDurationPageData(slug: string): SEOPageData | null {
     relatedPages: DURATION_BRACKETS
       .filter(b => b.slug !== slug)
       .map(b => ({ label: b.label, href: `/treks/duration/${b.slug}` })),
+    refinePages: getCombinationPages({ kind: 'duration', slug }).map(c => ({ label: c.label, href: c.href })),
   };
 }
 
@@ -285,5 +337,199 @@ export function getTierPageData(slug: string): SEOPageData | null {
     relatedPages: TIER_INFO
       .filter(t => t.slug !== slug)
       .map(t => ({ label: t.label, href: `/treks/tier/${t.slug}` })),
+    refinePages: getCombinationPages({ kind: 'tier', slug }).map(c => ({ label: c.label, href: c.href })),
+  };
+}
+
+// ── Combination pages (continent × duration / tier) ───────────────────────────
+// /treks/continent/:continent/duration/:slug and /treks/continent/:continent/tier/:slug,
+// e.g. "4–5 Day Treks in Europe" or "Iconic Treks in Asia". Only combinations
+// with at least MIN_COMBINATION_TREKS treks exist — thinner pages would just
+// repeat the single-dimension pages.
+export const MIN_COMBINATION_TREKS = 3;
+
+export type CombinationKind = 'duration' | 'tier';
+
+interface Facet {
+  slug: string;
+  label: string;         // "4–5 Day Treks", "Iconic Treks"
+  searchLabel: string;
+  description: string;
+  matches: (trek: any) => boolean;
+}
+
+function getFacets(kind: CombinationKind): Facet[] {
+  if (kind === 'duration') {
+    return DURATION_BRACKETS.map(b => ({
+      slug: b.slug,
+      label: b.label,
+      searchLabel: b.searchLabel,
+      description: `Routes of ${b.max >= 999 ? `${b.min} days or more` : `${b.min}–${b.max} days`}, each with a complete day-by-day itinerary.`,
+      matches: (t: any) => {
+        const d = getTrekDays(t);
+        return d >= b.min && d <= b.max;
+      },
+    }));
+  }
+  return TIER_INFO.map(info => ({
+    slug: info.slug,
+    label: info.label.split('— ')[1] ?? info.label,
+    searchLabel: info.searchLabel,
+    description: info.description,
+    matches: (t: any) => t.tier === info.tier,
+  }));
+}
+
+export interface CombinationPage {
+  continent: string;     // continent slug
+  kind: CombinationKind;
+  slug: string;          // duration bracket or tier slug
+  label: string;
+  href: string;
+  count: number;
+}
+
+// Every combination page that exists, optionally narrowed to one continent
+// or one duration bracket / tier. Largest first.
+export function getCombinationPages(filter: { continent?: string; kind?: CombinationKind; slug?: string } = {}): CombinationPage[] {
+  const pages: CombinationPage[] = [];
+  for (const continent of getAllContinents()) {
+    if (filter.continent && continent.slug !== filter.continent) continue;
+    const treks = getContinentTreks(continent.slug);
+    for (const kind of ['duration', 'tier'] as CombinationKind[]) {
+      if (filter.kind && kind !== filter.kind) continue;
+      for (const facet of getFacets(kind)) {
+        if (filter.slug && facet.slug !== filter.slug) continue;
+        const count = treks.filter(facet.matches).length;
+        if (count < MIN_COMBINATION_TREKS) continue;
+        pages.push({
+          continent: continent.slug,
+          kind,
+          slug: facet.slug,
+          label: `${facet.label} in ${continent.name}`,
+          href: `/treks/continent/${continent.slug}/${kind}/${facet.slug}`,
+          count,
+        });
+      }
+    }
+  }
+  return pages.sort((a, b) => b.count - a.count);
+}
+
+export function getCombinationPageData(continentSlug: string, kind: CombinationKind, slug: string): SEOPageData | null {
+  const continent = getAllContinents().find(c => c.slug === continentSlug);
+  const facet = getFacets(kind).find(f => f.slug === slug);
+  if (!continent || !facet) return null;
+
+  const treks = getContinentTreks(continentSlug).filter(facet.matches);
+  if (treks.length < MIN_COMBINATION_TREKS) return null;
+
+  const h1 = `${facet.label} in ${continent.name}`;
+  const href = `/treks/continent/${continentSlug}/${kind}/${slug}`;
+  const pages = getCombinationPages();
+
+  return {
+    slug,
+    title: `${h1} | TrekMind`,
+    description: `${treks.length} ${facet.label.toLowerCase()} in ${continent.name} — the best ${facet.searchLabel} on the continent, with full itineraries, route maps, and planning guides.`,
+    h1,
+    intro: `${facet.description} These are the ${treks.length} routes in ${continent.name} that fit — each with interactive maps, difficulty ratings and gear guides.`,
+    treks,
+    breadcrumb: [
+      { label: 'Home', href: '/' },
+      { label: continent.name, href: `/treks/continent/${continentSlug}` },
+      { label: h1, href },
+    ],
+    relatedPages: [
+      { label: `All ${facet.label}`, href: `/treks/${kind}/${slug}` },
+      // Same continent, other durations / tiers; then the same facet elsewhere
+      ...pages.filter(p => p.continent === continentSlug && p.href !== href),
+      ...pages.filter(p => p.continent !== continentSlug && p.kind === kind && p.slug === slug),
+    ].slice(0, 10).map(p => ({ label: p.label, href: p.href })),
+  };
+}
+
+// ── Month pages ───────────────────────────────────────────────────────────────
+export const MONTHS = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+].map((label, i) => ({ month: i + 1, slug: label.toLowerCase(), label }));
+
+export type SeasonStatus = 'peak' | 'shoulder' | 'year-round';
+
+// How a month sits in a trek's season: null when out of season. The first
+// and last months of a season of three or more months count as shoulder
+// season; seasons wrap around the new year ("October-April").
+export function getSeasonStatus(trek: any, month: number): SeasonStatus | null {
+  const months: number[] = Array.isArray(trek.seasonMonths) ? trek.seasonMonths : parseSeasonMonths(trek.season);
+  if (!months.includes(month)) return null;
+  if (new Set(months).size >= 12) return 'year-round';
+
+  const inSeason = (m: number) => months.includes(((m - 1 + 12) % 12) + 1);
+  let before = 0;
+  while (inSeason(month - before - 1)) before++;
+  let after = 0;
+  while (inSeason(month + after + 1)) after++;
+  if (before + after + 1 < 3) return 'peak';
+  return before === 0 || after === 0 ? 'shoulder' : 'peak';
+}
+
+function getTrekContinent(trek: any): string {
+  return getTrekContinents(trek)[0] ?? trek.region ?? 'Other';
+}
+
+const SEASON_ORDER: Record<SeasonStatus, number> = { peak: 0, shoulder: 1, 'year-round': 2 };
+
+export function getMonthPageData(slug: string): SEOPageData | null {
+  const info = MONTHS.find(m => m.slug === slug);
+  if (!info) return null;
+
+  const status = new Map<string, SeasonStatus>();
+  for (const t of getAllTreks()) {
+    const s = getSeasonStatus(t, info.month);
+    if (s) status.set(t.id, s);
+  }
+  if (status.size === 0) return null;
+
+  // Peak season first, then shoulder, then year-round; most popular first within each
+  const inSeason = getAllTreks()
+    .filter(t => status.has(t.id))
+    .sort((a, b) =>
+      SEASON_ORDER[status.get(a.id)!] - SEASON_ORDER[status.get(b.id)!] ||
+      (b.popularityScore ?? 0) - (a.popularityScore ?? 0));
+
+  const byContinent = new Map<string, any[]>();
+  for (const t of inSeason) {
+    const cont = getTrekContinent(t);
+    byContinent.set(cont, [...(byContinent.get(cont) ?? []), t]);
+  }
+  const groups = Array.from(byContinent.entries())
+    .sort((a, b) => b[1].length - a[1].length)
+    .map(([label, treks]) => ({ label, treks }));
+
+  const counts: Record<SeasonStatus, number> = { peak: 0, shoulder: 0, 'year-round': 0 };
+  const trekBadges: Record<string, string> = {};
+  status.forEach((s, id) => {
+    counts[s]++;
+    if (s === 'shoulder') trekBadges[id] = 'Shoulder season';
+    if (s === 'year-round') trekBadges[id] = 'Year-round';
+  });
+
+  const next = MONTHS.slice(info.month).concat(MONTHS.slice(0, info.month - 1));
+
+  return {
+    slug,
+    title: `Best Treks in ${info.label} | TrekMind`,
+    description: `${status.size} multi-day treks in season in ${info.label} — ${counts.peak} at their best, plus shoulder-season and year-round routes, grouped by continent, with itineraries and route maps.`,
+    h1: `Best Treks in ${info.label}`,
+    intro: `Where to trek in ${info.label}: ${counts.peak} routes are in peak season, ${counts.shoulder} are in shoulder season (quieter trails, more changeable weather) and ${counts['year-round']} can be walked year-round. Grouped by continent, most popular first.`,
+    treks: groups.flatMap(g => g.treks),
+    groups,
+    trekBadges,
+    breadcrumb: [
+      { label: 'Home', href: '/' },
+      { label: info.label, href: `/treks/month/${slug}` },
+    ],
+    relatedPages: next.map(m => ({ label: `Treks in ${m.label}`, href: `/treks/month/${m.slug}` })),
   };
 }
@@ -0,0 +1,160 @@
+// lib/structured-data.ts
+// schema.org JSON-LD for trek, SEO listing and article pages. Pages put the
+// output of jsonLd() in a <script type="application/ld+json"> inside <Helmet>,
+// so it is also part of the prerendered HTML (script/prerender.ts).
+
+import { normalizeItineraryDay, parseAltitude, parseDistanceKm, type ItineraryIssue } from '@shared/itinerary';
+import type { ArticleMeta } from './articles';
+import { getTrekImageUrl } from './images';
+import { getTrekDays, type SEOPageData } from './seo-pages';
+import type { Trek } from './treks';
+
+type JsonLdNode = Record<string, unknown>;
+
+const ORGANIZATION: JsonLdNode = {
+  '@type': 'Organization',
+  name: 'TrekMind',
+  url: 'https://trekmind.pages.dev',
+};
+
+// Serialised for a script element — `<` is escaped so content can't close it.
+export function jsonLd(...nodes: JsonLdNode[]): string {
+  const data = nodes.length === 1
+    ? { '@context': 'https://schema.org', ...nodes[0] }
+    : { '@context': 'https://schema.org', '@graph': nodes };
+  return JSON.stringify(data).replace(/</g, '\\u003c');
+}
+
+// Site-relative hrefs are resolved against the page's own origin
+function absoluteUrl(href: string, pageUrl: string): string {
+  return new URL(href, pageUrl).href;
+}
+
+// ── BreadcrumbList ────────────────────────────────────────────────────────────
+export function breadcrumbNode(crumbs: SEOPageData['breadcrumb'], pageUrl: string): JsonLdNode {
+  return {
+    '@type': 'BreadcrumbList',
+    itemListElement: crumbs.map((crumb, i) => ({
+      '@type': 'ListItem',
+      position: i + 1,
+      name: crumb.label,
+      item: absoluteUrl(crumb.href, pageUrl),
+    })),
+  };
+}
+
+// ── Trek: TouristTrip + Place ─────────────────────────────────────────────────
+function geo(latitude: number, longitude: number, elevation?: number | null): JsonLdNode {
+  return {
+    '@type': 'GeoCoordinates',
+    latitude,
+    longitude,
+    ...(elevation != null ? { elevation } : {}),
+  };
+}
+
+function propertyValue(name: string, value: number, unitCode: string, unitText: string): JsonLdNode {
+  return { '@type': 'PropertyValue', name, value, unitCode, unitText };
+}
+
+// TouristTrip plus the Place it covers. `itinerary` is the raw day list from
+// the trek's itinerary file, when loaded; days with coordinates become the
+// trip's stops, otherwise the itinerary is the trek's Place.
+export function trekNodes(trek: Trek, pageUrl: string, description: string, itinerary?: any[] | null): JsonLdNode[] {
+  const days = getTrekDays(trek) || null;
+  const distanceKm = trek.distanceKm ?? parseDistanceKm(trek.distance);
+  const maxAltitudeM = trek.maxAltitudeM ?? parseAltitude(trek.maxAltitude);
+  const placeId = `${pageUrl}#place`;
+
+  // TouristAttraction is a Place subtype; it keeps the trek's touristType
+  const place: JsonLdNode = {
+    '@type': 'TouristAttraction',
+    '@id': placeId,
+    name: trek.name,
+    touristType: 'Trekking / Hiking',
+    geo: geo(trek.latitude, trek.longitude, maxAltitudeM),
+    address: {
+      '@type': 'PostalAddress',
+      addressCountry: trek.country,
+      addressRegion: trek.region,
+    },
+    additionalProperty: [
+      ...(distanceKm != null ? [propertyValue('Distance', distanceKm, 'KMT', 'km')] : []),
+      ...(days ? [propertyValue('Duration', days, 'DAY', 'days')] : []),
+      ...(maxAltitudeM != null ? [propertyValue('Maximum altitude', maxAltitudeM, 'MTR', 'm')] : []),
+    ],
+  };
+
+  // Parse problems are reported by script/check-data.ts, not here
+  const issues: ItineraryIssue[] = [];
+  const stops = (itinerary ?? []).flatMap((raw) => {
+    const day = normalizeItineraryDay(raw, trek.id, issues);
+    return day && day.latitude != null && day.longitude != null ? [day] : [];
+  });
+
+  const trip: JsonLdNode = {
+    '@type': 'TouristTrip',
+    name: `${trek.name} Trek`,
+    description,
+    url: pageUrl,
+    image: getTrekImageUrl(trek.imageFilename),
+    touristType: ['Trekking', 'Hiking'],
+    provider: ORGANIZATION,
+    itinerary: stops.length > 0
+      ? {
+          '@type': 'ItemList',
+          numberOfItems: stops.length,
+          itemListElement: stops.map((day, i) => ({
+            '@type': 'ListItem',
+            position: i + 1,
+            item: {
+              '@type': 'Place',
+              name: day.overnight || day.title,
+              description: `Day ${day.dayNumber}: ${day.title}`,
+              geo: geo(day.latitude!, day.longitude!, day.altitudeM),
+            },
+          })),
+        }
+      : { '@id': placeId },
+  };
+
+  return [trip, place];
+}
+
+// ── Listing pages: CollectionPage + ItemList ──────────────────────────────────
+export function collectionPageNode(data: SEOPageData, pageUrl: string): JsonLdNode {
+  return {
+    '@type': 'CollectionPage',
+    name: data.h1,
+    description: data.description,
+    url: pageUrl,
+    mainEntity: {
+      '@type': 'ItemList',
+      name: data.h1,
+      numberOfItems: data.treks.length,
+      itemListElement: data.treks.map((trek, i) => ({
+        '@type': 'ListItem',
+        position: i + 1,
+        name: trek.name,
+        url: absoluteUrl(`/trek/${trek.id}`, pageUrl),
+      })),
+    },
+  };
+}
+
+// ── Article ───────────────────────────────────────────────────────────────────
+export function articleNode(meta: ArticleMeta, pageUrl: string, image: string): JsonLdNode {
+  return {
+    '@type': 'Article',
+    headline: meta.title,
+    description: meta.description,
+    url: pageUrl,
+    mainEntityOfPage: pageUrl,
+    image,
+    articleSection: meta.category,
+    datePublished: meta.publishedAt,
+    dateModified: meta.updatedAt ?? meta.publishedAt,
+    author: ORGANIZATION,
+    publisher: ORGANIZATION,
+  };
+}
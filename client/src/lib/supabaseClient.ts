@@ -4,6 +4,7 @@
 // and in Cloudflare Pages → Settings → Environment Variables (production).
 
 import { createClient } from '@supabase/supabase-js'
+import type { FilterPreset, FinderSession } from '@shared/schema'
 
 const supabaseUrl  = import.meta.env.VITE_SUPABASE_URL  as string | undefined
 const supabaseAnon = import.meta.env.VITE_SUPABASE_ANON_KEY as string | undefined
@@ -21,7 +22,12 @@ if (!supabaseUrl || !supabaseAnon) {
   )
 }
 
-export const supabase = (supabaseUrl && supabaseAnon)
+// Browser only: prerendering (script/prerender.ts) imports the app in Node,
+// where auth and cloud saves never run and older Node versions have no
+// WebSocket for the realtime client.
+const isBrowser = typeof window !== 'undefined'
+
+export const supabase = (supabaseUrl && supabaseAnon && isBrowser)
   ? createClient(supabaseUrl, supabaseAnon)
   : null
 
@@ -34,7 +40,7 @@ export const supabase = (supabaseUrl && supabaseAnon)
 // In local dev (VITE_APP_URL not set) falls back to window.location.origin
 // so localhost:5173 / localhost:3000 both work automatically.
 export const AUTH_REDIRECT_URL =
-  (import.meta.env.VITE_APP_URL as string | undefined) ?? window.location.origin
+  (import.meta.env.VITE_APP_URL as string | undefined) ?? (isBrowser ? window.location.origin : '')
 
 // ── Types ──────────────────────────────────────────────────────────────────
 export type TrekStatus = 'completed' | 'inProgress' | 'wishlist'
@@ -50,5 +56,7 @@ export interface SavedTrek {
 export interface UserPreferences {
   user_id:        string
   has_seen_intro: boolean
+  filter_presets: FilterPreset[] // jsonb not null default '[]'
+  finder_sessions: FinderSession[] // jsonb not null default '[]'
   updated_at:     string
 }
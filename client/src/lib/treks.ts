@@ -11,6 +11,9 @@
 
 import treksData     from '../data/treks.json';
 import editorialData from '../data/editorial.json';
+import type { TrekCost } from '@shared/schema';
+import type { ItineraryFile } from '@shared/itinerary';
+import { getTrekAliases, resolveTrekId } from '@shared/trekAliases';
 
 export interface Trek {
   id: string;
@@ -37,6 +40,11 @@ export interface Trek {
   longitude: number;
   imageFilename: string;
   popularityScore?: number;
+  durationBucket?: string;
+  budget?: string;
+  costIndependent?: TrekCost;
+  costGuided?: TrekCost;
+  costNotes?: string;
   whySpecial?: string;
   highlights?: string[];
   keyFeatures?: string;
@@ -57,12 +65,14 @@ export function getAllTreks(): Trek[] {
   return _treks; // always an array, never null
 }
 
+// Accepts legacy slugs too (shared/trekAliases.ts); the result carries the
+// canonical id.
 export function getTrekById(id: string): Trek | null {
   if (!id) return null;
-  const trek = _treks.find((t) => t.id === id);
+  const trek = _treks.find((t) => t.id === resolveTrekId(id));
   if (!trek) return null;
 
-  const editorial = _editorial[id];
+  const editorial = getEditorialContent(trek.id);
   if (editorial) {
     return { ...trek, whySpecial: editorial.whySpecial, highlights: editorial.highlights };
   }
@@ -79,25 +89,12 @@ export function getTreksByRegion(region: string): Trek[] {
 
 export function getEditorialContent(trekId: string): any | null {
   if (!trekId) return null;
+  const id = resolveTrekId(trekId);
 
-  // Direct key lookup first
-  const direct = _editorial[trekId];
-  if (direct) return direct;
-
-  // Fallback: match by normalised name or name property
-  const trek = _treks.find((t) => t.id === trekId);
-  if (!trek) return null;
-
-  try {
-    const normalizedName = trek.name.toLowerCase().replace(/\s+/g, '-').replace(/[()]/g, '');
-    const entry = Object.entries(_editorial).find(
-      ([key, val]) => key === normalizedName || (val as any).name === trek.name
-    );
-    if (entry) return entry[1];
-  } catch {
-    console.warn(`[treks] Error finding editorial for ${trekId}`);
+  // Keyed by trek id, or still by one of its legacy slugs
+  for (const key of [id, ...getTrekAliases(id)]) {
+    if (_editorial[key]) return _editorial[key];
   }
-
   return null;
 }
 
@@ -111,12 +108,28 @@ export function getItinerary(_trekId: string): any[] | null {
 // Fetches /data/itineraries/{trekId}.json on demand (1–9KB per file).
 // In-memory cache prevents duplicate fetches within the same session.
 
-const _itineraryCache = new Map<string, Promise<any[] | null>>();
+const _itineraryFileCache = new Map<string, Promise<ItineraryFile | null>>();
 
-export function getItineraryAsync(trekId: string): Promise<any[] | null> {
-  if (!trekId) return Promise.resolve(null);
+// Files already in hand: filled by primeItineraryFile() from the data a
+// prerendered page embeds, so the first render can use them synchronously.
+const _itineraryFileSync = new Map<string, ItineraryFile | null>();
+
+export function primeItineraryFile(trekId: string, file: ItineraryFile | null): void {
+  _itineraryFileSync.set(trekId, file);
+  _itineraryFileCache.set(trekId, Promise.resolve(file));
+}
+
+// undefined = not loaded yet, null = the trek has no itinerary file
+export function peekItineraryFile(trekId: string): ItineraryFile | null | undefined {
+  return _itineraryFileSync.get(resolveTrekId(trekId));
+}
+
+// Whole file — itinerary days plus the top-level waypoints array
+export function getItineraryFileAsync(idOrAlias: string): Promise<ItineraryFile | null> {
+  if (!idOrAlias) return Promise.resolve(null);
+  const trekId = resolveTrekId(idOrAlias);
 
-  if (!_itineraryCache.has(trekId)) {
+  if (!_itineraryFileCache.has(trekId)) {
     const promise = fetch(`/data/itineraries/${trekId}.json`)
       .then((res) => {
         if (!res.ok) {
@@ -125,24 +138,30 @@ export function getItineraryAsync(trekId: string): Promise<any[] | null> {
         }
         return res.json();
       })
-      .then((data) => {
-        if (!data) return null;
-        return Array.isArray(data.itinerary) ? data.itinerary : null;
+      .then((data) => (data && Array.isArray(data.itinerary) ? (data as ItineraryFile) : null))
+      .then((file) => {
+        _itineraryFileSync.set(trekId, file);
+        return file;
       })
       .catch((err) => {
         console.warn(`[treks] Failed to load itinerary for "${trekId}":`, err);
         return null;
       });
 
-    _itineraryCache.set(trekId, promise);
+    _itineraryFileCache.set(trekId, promise);
   }
 
-  return _itineraryCache.get(trekId)!;
+  return _itineraryFileCache.get(trekId)!;
+}
+
+export function getItineraryAsync(trekId: string): Promise<any[] | null> {
+  return getItineraryFileAsync(trekId).then((file) => file?.itinerary ?? null);
 }
 
 // ── Async editorial loader ────────────────────────────────────────────────────
-export async function getEditorialContentAsync(trekId: string): Promise<any | null> {
-  if (!trekId) return null;
+export async function getEditorialContentAsync(idOrAlias: string): Promise<any | null> {
+  if (!idOrAlias) return null;
+  const trekId = resolveTrekId(idOrAlias);
 
   // Primary: static editorial.json (already imported, zero cost)
   const staticEd = getEditorialContent(trekId);
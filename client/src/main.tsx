@@ -1,5 +1,16 @@
-import { createRoot } from "react-dom/client";
+import { createRoot, hydrateRoot } from "react-dom/client";
 import App from "./App";
+import { primePrerenderData, readPrerenderData } from "./lib/prerender";
 import "./index.css";
 
-createRoot(document.getElementById("root")!).render(<App />);
+const root = document.getElementById("root")!;
+
+// Trek, SEO and article pages are prerendered at build time (script/prerender.ts);
+// hydrate those, client-render everything else.
+if (root.hasChildNodes()) {
+  const data = readPrerenderData();
+  if (data) primePrerenderData(data);
+  hydrateRoot(root, <App />);
+} else {
+  createRoot(root).render(<App />);
+}
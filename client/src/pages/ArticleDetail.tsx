@@ -1,10 +1,11 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useEffect } from 'react';
 import { Link, useRoute } from 'wouter';
 import { Helmet } from 'react-helmet-async';
 import { Clock, ArrowLeft, BookOpen, ExternalLink } from 'lucide-react';
-import { getArticleBySlug, loadArticleContent, markdownToHtml, type ArticleMeta } from '@/lib/articles';
+import { getArticleBySlug, getArticleContent, markdownToHtml, type ArticleMeta } from '@/lib/articles';
 import { getTrekById } from '@/lib/treks';
 import { getTrekImageUrl } from '@/lib/images';
+import { jsonLd, articleNode, breadcrumbNode } from '@/lib/structured-data';
 
 // Related trek mini-card
 function TrekCard({ trekId }: { trekId: string }) {
@@ -38,21 +39,14 @@ export default function ArticleDetail() {
   const [, params] = useRoute('/articles/:slug');
   const slug = params?.slug ?? '';
 
-  const [content, setContent] = useState<string | null>(null);
-  const [loading, setLoading] = useState(true);
+  // Content is bundled, so it's read synchronously — prerendered pages
+  // (script/prerender.ts) include the article body in their HTML.
+  const content = useMemo(() => getArticleContent(slug), [slug]);
 
   const meta: ArticleMeta | null = getArticleBySlug(slug);
 
   useEffect(() => {
     window.scrollTo(0, 0);
-    setLoading(true);
-    setContent(null);
-    console.log(`[TrekMind] ArticleDetail slug: "${slug}", meta found: ${!!getArticleBySlug(slug)}`);
-    loadArticleContent(slug).then(md => {
-      console.log(`[TrekMind] loadArticleContent returned: ${md === null ? 'null' : `${md.length} chars`}`);
-      setContent(md);
-      setLoading(false);
-    });
   }, [slug]);
 
   if (!meta) {
@@ -84,19 +78,16 @@ export default function ArticleDetail() {
         <meta name="twitter:card"        content="summary_large_image" />
         <meta name="twitter:title"       content={meta.title} />
         <meta name="twitter:description" content={meta.description} />
-        <script type="application/ld+json">{JSON.stringify({
-          "@context": "https://schema.org",
-          "@type": "Article",
-          "headline": meta.title,
-          "description": meta.description,
-          "url": pageUrl,
-          "datePublished": meta.publishedAt,
-          "publisher": {
-            "@type": "Organization",
-            "name": "TrekMind",
-            "url": "https://trekmind.app"
-          }
-        })}</script>
+        <script type="application/ld+json">
+          {jsonLd(
+            articleNode(meta, pageUrl, 'https://trekmind.app/og-image.jpg'),
+            breadcrumbNode([
+              { label: 'Home', href: '/' },
+              { label: 'Articles', href: '/articles' },
+              { label: meta.title, href: `/articles/${slug}` },
+            ], pageUrl),
+          )}
+        </script>
       </Helmet>
 
       {/* Sticky nav bar */}
@@ -126,18 +117,7 @@ export default function ArticleDetail() {
               <span className="text-sm font-semibold text-primary uppercase tracking-wide">{meta.category}</span>
             </div>
 
-            {loading && (
-              <div className="space-y-4 animate-pulse">
-                <div className="h-8 bg-muted/50 rounded w-3/4" />
-                <div className="h-4 bg-muted/30 rounded w-full" />
-                <div className="h-4 bg-muted/30 rounded w-5/6" />
-                <div className="h-4 bg-muted/30 rounded w-4/5" />
-                <div className="h-4 bg-muted/30 rounded w-full" />
-                <div className="h-4 bg-muted/30 rounded w-3/4" />
-              </div>
-            )}
-
-            {!loading && content && (
+            {content && (
               <div
                 className="article-prose break-words"
                 style={{ overflowWrap: 'break-word', wordBreak: 'break-word' }}
@@ -145,7 +125,7 @@ export default function ArticleDetail() {
               />
             )}
 
-            {!loading && !content && (
+            {!content && (
               <div className="py-12 text-center text-muted-foreground">
                 <BookOpen className="w-10 h-10 mx-auto mb-3 opacity-30" />
                 <p className="font-medium">Article content unavailable</p>
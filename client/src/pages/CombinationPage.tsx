@@ -0,0 +1,26 @@
+// pages/CombinationPage.tsx
+// Continent × duration / tier pages, e.g. /treks/continent/europe/tier/iconic
+import { useRoute } from 'wouter';
+import { getCombinationPageData, type CombinationKind } from '@/lib/seo-pages';
+import SEOPage from '@/pages/SEOPage';
+import NotFound from '@/pages/not-found';
+
+export default function CombinationPage() {
+  const [, params] = useRoute<{ continent: string; kind: string; slug: string }>('/treks/continent/:continent/:kind/:slug');
+  const continent = params?.continent ?? '';
+  const kind = params?.kind ?? '';
+  const slug = params?.slug ?? '';
+  const data = kind === 'duration' || kind === 'tier'
+    ? getCombinationPageData(continent, kind as CombinationKind, slug)
+    : null;
+
+  // Suggestions come from the continent — the facet slug alone matches nothing
+  if (!data) return <NotFound slug={continent} />;
+
+  return (
+    <SEOPage
+      data={data}
+      pageUrl={`https://trekmind.pages.dev/treks/continent/${continent}/${kind}/${slug}`}
+    />
+  );
+}
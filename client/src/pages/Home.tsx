@@ -4,6 +4,7 @@ import { getAllTreks } from "../lib/treks";
 import { TrekCard } from "@/components/TrekCard";
 import { Map, LayoutGrid, Info, Sparkles, Trophy, BookmarkCheck, BookOpen } from "lucide-react";
 import { useFilterStore } from "@/store/useFilterStore";
+import { useFilterUrlSync } from "@/hooks/useFilterUrlSync";
 import { useCompareStore } from "@/store/compareStore";
 import { filterTreks } from "@/lib/filterTreks";
 import { Helmet } from "react-helmet-async";
@@ -54,6 +55,7 @@ export default function Home() {
   const compareCount = useCompareStore(s => s.selectedTreks.length);
 
   const { filters, setFilters } = useFilterStore();
+  useFilterUrlSync(); // ?region=Asia&month=10 ↔ filters — shareable, survives refresh
 
   const activeFilterCount = useMemo(() => countActiveFilters(filters), [filters]);
 
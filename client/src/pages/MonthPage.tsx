@@ -0,0 +1,19 @@
+import { useRoute } from 'wouter';
+import { getMonthPageData } from '@/lib/seo-pages';
+import SEOPage from '@/pages/SEOPage';
+import NotFound from '@/pages/not-found';
+
+export default function MonthPage() {
+  const [, params] = useRoute('/treks/month/:slug');
+  const slug = params?.slug ?? '';
+  const data = getMonthPageData(slug);
+
+  if (!data) return <NotFound slug={slug} />;
+
+  return (
+    <SEOPage
+      data={data}
+      pageUrl={`https://trekmind.pages.dev/treks/month/${slug}`}
+    />
+  );
+}
@@ -1,15 +1,17 @@
 // SEOPage.tsx
 // Universal page component for all programmatic SEO pages:
-// region, country, continent, duration bracket, and tier pages.
+// region, country, continent, duration bracket, tier and month pages, and the
+// continent × duration / tier combination pages.
 // Accepts SEOPageData and renders consistently with full SEO meta.
 
 import { Link } from 'wouter';
 import { Helmet } from 'react-helmet-async';
 import { MapPin, Clock, Mountain, ArrowRight, ChevronRight } from 'lucide-react';
-import { type SEOPageData } from '@/lib/seo-pages';
+import { type SEOPageData, isCrossBorder } from '@/lib/seo-pages';
 import { getTrekImageUrl } from '@/lib/images';
+import { jsonLd, collectionPageNode, breadcrumbNode } from '@/lib/structured-data';
 
-function TrekListCard({ trek }: { trek: any }) {
+function TrekListCard({ trek, badge }: { trek: any; badge?: string }) {
   const tierColour = {
     1: 'bg-amber-400',
     2: 'bg-blue-400',
@@ -39,6 +41,12 @@ function TrekListCard({ trek }: { trek: any }) {
           <div className="flex items-center gap-2 mb-1">
             <span className={`w-2 h-2 rounded-full ${tierColour} shrink-0`} />
             <span className="text-[10px] font-bold uppercase tracking-wider text-muted-foreground">{tierLabel}</span>
+            {isCrossBorder(trek) && (
+              <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-primary/10 text-primary">Cross-border</span>
+            )}
+            {badge && (
+              <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-muted text-muted-foreground">{badge}</span>
+            )}
           </div>
           <h3 className="font-bold text-foreground group-hover:text-primary transition-colors truncate">
             {trek.name}
@@ -84,13 +92,9 @@ export default function SEOPage({ data, pageUrl }: SEOPageProps) {
         <meta property="og:title"       content={data.title} />
         <meta property="og:description" content={data.description} />
         <meta property="og:image"       content="https://trekmind.pages.dev/og-image.jpg" />
-        <script type="application/ld+json">{JSON.stringify({
-          "@context": "https://schema.org",
-          "@type": "CollectionPage",
-          "name": data.h1,
-          "description": data.description,
-          "url": pageUrl,
-        })}</script>
+        <script type="application/ld+json">
+          {jsonLd(collectionPageNode(data, pageUrl), breadcrumbNode(data.breadcrumb, pageUrl))}
+        </script>
       </Helmet>
 
       {/* Header */}
@@ -123,16 +127,51 @@ export default function SEOPage({ data, pageUrl }: SEOPageProps) {
       <div className="max-w-5xl mx-auto px-4 sm:px-6 lg:px-8 py-10">
         <div className="grid grid-cols-1 lg:grid-cols-[1fr_220px] gap-10">
 
-          {/* Trek list */}
-          <div className="space-y-3">
-            {data.treks.map(trek => (
-              <TrekListCard key={trek.id} trek={trek} />
-            ))}
-          </div>
+          {/* Trek list — grouped under headings when the page provides groups */}
+          {data.groups ? (
+            <div className="space-y-8">
+              {data.groups.map(group => (
+                <section key={group.label}>
+                  <h2 className="text-lg font-bold text-foreground mb-3">
+                    {group.label} <span className="text-sm font-normal text-muted-foreground">({group.treks.length})</span>
+                  </h2>
+                  <div className="space-y-3">
+                    {group.treks.map(trek => (
+                      <TrekListCard key={trek.id} trek={trek} badge={data.trekBadges?.[trek.id]} />
+                    ))}
+                  </div>
+                </section>
+              ))}
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {data.treks.map(trek => (
+                <TrekListCard key={trek.id} trek={trek} badge={data.trekBadges?.[trek.id]} />
+              ))}
+            </div>
+          )}
 
           {/* Sidebar: related pages */}
           <aside className="space-y-6">
-            <div className="sticky top-6">
+            <div className="sticky top-6 space-y-4">
+              {data.refinePages && data.refinePages.length > 0 && (
+                <div className="bg-card border border-border rounded-xl p-5">
+                  <h3 className="text-sm font-bold text-foreground uppercase tracking-wider mb-4">
+                    Narrow it down
+                  </h3>
+                  <div className="space-y-2">
+                    {data.refinePages.map(page => (
+                      <Link key={page.href} href={page.href}>
+                        <div className="flex items-center justify-between py-2 px-3 rounded-lg hover:bg-muted transition-colors text-sm text-muted-foreground hover:text-foreground">
+                          {page.label}
+                          <ChevronRight className="w-3.5 h-3.5 shrink-0" />
+                        </div>
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {data.relatedPages.length > 0 && (
                 <div className="bg-card border border-border rounded-xl p-5">
                   <h3 className="text-sm font-bold text-foreground uppercase tracking-wider mb-4">
@@ -151,7 +190,7 @@ export default function SEOPage({ data, pageUrl }: SEOPageProps) {
                 </div>
               )}
 
-              <div className="mt-4 bg-primary/5 border border-primary/20 rounded-xl p-4 text-center">
+              <div className="bg-primary/5 border border-primary/20 rounded-xl p-4 text-center">
                 <p className="text-sm text-muted-foreground mb-3">Explore all treks on the interactive globe</p>
                 <Link href="/">
                   <button className="w-full py-2.5 bg-primary text-primary-foreground text-sm font-semibold rounded-lg hover:bg-primary/90 transition-colors">
@@ -1,16 +1,18 @@
 // Top100.tsx — World's Top 100 Treks ranked list page
 // Route: /top-100
-// Scoring: composite of popularity, altitude drama, terrain, tier, uniqueness
+// Scoring: composite of popularity, altitude drama, terrain, tier and trip
+// length, each with a reader-tunable weight (?weights=… in the URL)
 
 import { useState, useMemo } from "react";
-import { Link } from "wouter";
+import { Link, useLocation, useSearch } from "wouter";
 import { Helmet } from "react-helmet-async";
 import { getAllTreks } from "@/lib/treks";
 import { getTrekImageUrl } from "@/lib/images";
 import {
   ArrowLeft, Mountain, Clock, MapPin, ChevronRight,
-  Star, Compass, Zap, Globe2, Gem, Filter
+  Star, Compass, Zap, Globe2, Gem, Filter, SlidersHorizontal, RotateCcw, Link2, Check
 } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
 
 // ── Scoring helpers ───────────────────────────────────────────────────────────
 
@@ -23,7 +25,7 @@ function altitudeDrama(trek: any): number {
   const alt = parseNum(trek.maxAltitude);
   // Graduated: meaningful from 2000m, each threshold earns a distinct step.
   // Raw scores used here; Tier 5 technical peaks receive a 0.45× multiplier
-  // inside compositeScore so alpinism routes don’t overwhelm classic treks.
+  // inside scoreBreakdown (by default) so alpinism routes don’t overwhelm classic treks.
   if (alt >= 5500) return 22;
   if (alt >= 5000) return 19;  // was same as 5500 — now properly differentiated
   if (alt >= 4500) return 16;
@@ -48,25 +50,105 @@ function terrainScore(trek: any): number {
   return Math.min(12, s);
 }
 
-function compositeScore(trek: any): number {
+// ── Ranking weights ───────────────────────────────────────────────────────────
+// Each component of the composite score is scaled by a weight; the defaults
+// give the editorial ranking. Readers can tune them in the weights panel, and a
+// custom weighting is kept in the URL (?weights=pop:6,tier:0.5) for sharing.
+
+type WeightKey = "popularity" | "altitude" | "terrain" | "tier" | "access" | "peakAltitude";
+type RankingWeights = Record<WeightKey, number>;
+
+const DEFAULT_WEIGHTS: RankingWeights = {
+  popularity:   5.0,  // points per popularity point (0–10)
+  altitude:     1,
+  terrain:      1,
+  tier:         1,
+  access:       1,
+  peakAltitude: 0.45, // share of the altitude score Tier 5 peaks keep
+};
+
+interface WeightControl {
+  key:   WeightKey;
+  param: string;      // key in the ?weights= list
+  label: string;
+  hint:  string;
+  min:   number;
+  max:   number;
+  step:  number;
+}
+
+const WEIGHT_CONTROLS: WeightControl[] = [
+  { key: "popularity",   param: "pop",     label: "Popularity",     hint: "Points per popularity point (0–10)",       min: 0, max: 10, step: 0.5 },
+  { key: "altitude",     param: "alt",     label: "Altitude drama", hint: "× 2–22 pts by maximum altitude",           min: 0, max: 3,  step: 0.1 },
+  { key: "terrain",      param: "terrain", label: "Terrain",        hint: "× 0–12 pts for glaciers, volcanoes, coast…", min: 0, max: 3,  step: 0.1 },
+  { key: "tier",         param: "tier",    label: "Tier bonus",     hint: "× 2–22 pts, iconic classics highest",      min: 0, max: 3,  step: 0.1 },
+  { key: "access",       param: "access",  label: "Trip length",    hint: "× 1–8 pts, 7–14 days best",                min: 0, max: 3,  step: 0.1 },
+  { key: "peakAltitude", param: "peak",    label: "Tier 5 altitude", hint: "Share of altitude points technical peaks keep", min: 0, max: 1, step: 0.05 },
+];
+
+function isDefaultWeighting(weights: RankingWeights): boolean {
+  return WEIGHT_CONTROLS.every(c => weights[c.key] === DEFAULT_WEIGHTS[c.key]);
+}
+
+// "pop:6,tier:0.5" — only the weights that differ from the defaults
+function formatWeights(weights: RankingWeights): string {
+  return WEIGHT_CONTROLS
+    .filter(c => weights[c.key] !== DEFAULT_WEIGHTS[c.key])
+    .map(c => `${c.param}:${weights[c.key]}`)
+    .join(",");
+}
+
+// Unknown keys and unparseable values are ignored; values are clamped to the
+// slider range.
+function parseWeights(raw: string | null): RankingWeights {
+  const weights = { ...DEFAULT_WEIGHTS };
+  for (const entry of (raw ?? "").split(",")) {
+    const [param, value] = entry.split(":");
+    const control = WEIGHT_CONTROLS.find(c => c.param === param);
+    const num = Number(value);
+    if (!control || value === undefined || value.trim() === "" || !Number.isFinite(num)) continue;
+    weights[control.key] = Math.min(control.max, Math.max(control.min, num));
+  }
+  return weights;
+}
+
+// ── Composite score ───────────────────────────────────────────────────────────
+
+type ScoreComponent = Exclude<WeightKey, "peakAltitude">;
+
+interface ScoreBreakdown {
+  parts: Record<ScoreComponent, number>; // points each component contributed
+  total: number;
+}
+
+const COMPONENTS: { key: ScoreComponent; label: string; short: string; color: string }[] = [
+  { key: "popularity", label: "Popularity",     short: "pop",     color: "bg-primary" },
+  { key: "altitude",   label: "Altitude drama", short: "alt",     color: "bg-sky-500" },
+  { key: "terrain",    label: "Terrain",        short: "terrain", color: "bg-emerald-500" },
+  { key: "tier",       label: "Tier bonus",     short: "tier",    color: "bg-amber-400" },
+  { key: "access",     label: "Trip length",    short: "length",  color: "bg-violet-400" },
+];
+
+function scoreBreakdown(trek: any, weights: RankingWeights = DEFAULT_WEIGHTS): ScoreBreakdown {
   const pop  = trek.popularityScore ?? 5;
   const tier = trek.tier ?? 2;
 
-  // ── Popularity: primary ranking signal (max 50 pts) ──────────────────────────
+  // ── Popularity: primary ranking signal (max 50 pts at the default ×5.0) ──────
   // Captures real-world demand — permit queues, guide bookings, search volume.
-  // Raised from ×4.2 to ×5.0 so fame outweighs pure altitude.
-  const popScore = pop * 5.0;
+  // Default raised from ×4.2 to ×5.0 so fame outweighs pure altitude.
+  const popScore = pop * weights.popularity;
 
   // ── Altitude drama ───────────────────────────────────────────────────────────
   // Tier 5 trekking peaks (technical alpinism — crampons, ice axe, crevasse risk)
-  // receive only 45% of the altitude score. Their summits are impressive but they
-  // appeal to a small alpinist audience, not general trekkers. Without this cap,
-  // routes like Elbrus and Island Peak rank #4–8 ahead of TMB and Haute Route.
+  // receive only 45% of the altitude score by default. Their summits are
+  // impressive but they appeal to a small alpinist audience, not general
+  // trekkers. Without this cap, routes like Elbrus and Island Peak rank #4–8
+  // ahead of TMB and Haute Route.
   const rawAlt   = altitudeDrama(trek);
-  const altScore = tier === 5 ? Math.round(rawAlt * 0.45) : rawAlt;
+  const altScore = (tier === 5 ? Math.round(rawAlt * weights.peakAltitude) : rawAlt) * weights.altitude;
 
   // ── Terrain richness (0–12 pts) ───────────────────────────────────────────────
-  const terr = terrainScore(trek);
+  const terr = terrainScore(trek) * weights.terrain;
 
   // ── Tier bonus ────────────────────────────────────────────────────────────────
   // T1 iconic classics dominate; T5 technical peaks are explicitly penalised.
@@ -79,6 +161,7 @@ function compositeScore(trek: any): number {
     4:  9,  // Thru — PCT, AT, GHT (ambitious but niche long-distance crowd)
     5:  2,  // Peak — alpinism routes; impressive but not typical trekking
   };
+  const tierScore = (TIER_BONUS[tier] ?? 14) * weights.tier;
 
   // ── Access bonus: 7–14 days is the sweet spot ─────────────────────────────────
   // Most serious trekkers have 1–2 week holidays. Routes fitting that window
@@ -91,13 +174,19 @@ function compositeScore(trek: any): number {
     days <= 3                ? 2 :   // summit-day / weekend routes
     1;                                // >21 days — expedition/thru-hike length
 
-  return (
-    popScore +
-    altScore +
-    terr +
-    (TIER_BONUS[tier] ?? 14) +
-    accessBonus
-  );
+  const parts = {
+    popularity: popScore,
+    altitude:   altScore,
+    terrain:    terr,
+    tier:       tierScore,
+    access:     accessBonus * weights.access,
+  };
+  return { parts, total: COMPONENTS.reduce((sum, c) => sum + parts[c.key], 0) };
+}
+
+// Points rounded for display — one decimal only when the weights produce one
+function formatPoints(points: number): string {
+  return Number.isInteger(Math.round(points * 10) / 10) ? String(Math.round(points)) : points.toFixed(1);
 }
 
 // ── Sort presets ──────────────────────────────────────────────────────────────
@@ -162,7 +251,35 @@ function RankBadge({ rank }: { rank: number }) {
 
 // ── Trek row component ────────────────────────────────────────────────────────
 
-function TrekRow({ trek, rank }: { trek: any; rank: number }) {
+// Points per component as a stacked bar, scaled to the list's top score
+function ScoreBar({ breakdown, maxTotal }: { breakdown: ScoreBreakdown; maxTotal: number }) {
+  const title = COMPONENTS
+    .map(c => `${c.label}: ${formatPoints(breakdown.parts[c.key])} pts`)
+    .join("\n") + `\nTotal: ${formatPoints(breakdown.total)} pts`;
+  return (
+    <div className="mt-1.5" title={title}>
+      <div className="flex h-1.5 rounded-full overflow-hidden bg-muted max-w-[220px]">
+        {COMPONENTS.map(c => (
+          <div
+            key={c.key}
+            className={c.color}
+            style={{ width: `${maxTotal > 0 ? (breakdown.parts[c.key] / maxTotal) * 100 : 0}%` }}
+          />
+        ))}
+      </div>
+      <div className="hidden sm:flex items-center gap-2 mt-1 text-[9px] text-muted-foreground">
+        {COMPONENTS.map(c => (
+          <span key={c.key} className="flex items-center gap-0.5">
+            <span className={`w-1.5 h-1.5 rounded-full ${c.color}`} />
+            {formatPoints(breakdown.parts[c.key])} {c.short}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function TrekRow({ trek, rank, maxTotal }: { trek: any; rank: number; maxTotal: number }) {
   const [imgError, setImgError] = useState(false);
   const days = parseNum(trek.totalDays);
 
@@ -211,23 +328,21 @@ function TrekRow({ trek, rank }: { trek: any; rank: number }) {
               <Mountain className="w-3 h-3 shrink-0" />
               {trek.maxAltitude}
             </span>
+            {trek.terrain && (
+              <>
+                <span className="text-border hidden sm:inline">·</span>
+                <span className="hidden sm:inline truncate">{trek.terrain.split(",")[0]}</span>
+              </>
+            )}
           </div>
-          {/* Popularity bar */}
-          <div className="mt-1.5 flex items-center gap-1.5">
-            <span className="text-[9px] text-muted-foreground/60 shrink-0">Popularity</span>
-            <div
-              className="flex-1 h-1 bg-muted rounded-full overflow-hidden max-w-[80px]"
-              title={`Popularity score: ${trek.popularityScore ?? 5}/10 — how well-known and accessible this trek is`}
-            >
-              <div
-                className="h-full bg-primary rounded-full"
-                style={{ width: `${((trek.popularityScore ?? 5) / 10) * 100}%` }}
-              />
-            </div>
-            <span className="text-[9px] text-muted-foreground">
-              {trek.terrain?.split(",")[0]}
-            </span>
-          </div>
+          {/* Score breakdown */}
+          <ScoreBar breakdown={trek._breakdown} maxTotal={maxTotal} />
+        </div>
+
+        {/* Total */}
+        <div className="text-right shrink-0">
+          <div className="text-sm font-black text-foreground leading-none">{formatPoints(trek._breakdown.total)}</div>
+          <div className="text-[9px] text-muted-foreground">pts</div>
         </div>
 
         {/* Arrow */}
@@ -239,7 +354,7 @@ function TrekRow({ trek, rank }: { trek: any; rank: number }) {
 
 // ── Region section ────────────────────────────────────────────────────────────
 
-function RegionSection({ region, treks }: { region: string; treks: any[] }) {
+function RegionSection({ region, treks, maxTotal }: { region: string; treks: any[]; maxTotal: number }) {
   const flagMap: Record<string, string> = {
     "Asia": "🌏", "Europe": "🌍", "South America": "🌎",
     "North America": "🌎", "Africa": "🌍", "Oceania": "🌏"
@@ -252,7 +367,71 @@ function RegionSection({ region, treks }: { region: string; treks: any[] }) {
         <span className="text-xs font-normal text-muted-foreground ml-1">({treks.length} treks)</span>
       </h3>
       <div className="space-y-2">
-        {treks.map((t, i) => <TrekRow key={t.id} trek={t} rank={i + 1} />)}
+        {treks.map((t, i) => <TrekRow key={t.id} trek={t} rank={i + 1} maxTotal={maxTotal} />)}
+      </div>
+    </div>
+  );
+}
+
+// ── Weights panel ─────────────────────────────────────────────────────────────
+
+function WeightsPanel({ weights, onChange }: { weights: RankingWeights; onChange: (w: RankingWeights) => void }) {
+  const [copied, setCopied] = useState(false);
+  const isDefault = isDefaultWeighting(weights);
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard unavailable — the URL in the address bar is the link
+    }
+  };
+
+  return (
+    <div className="border-b border-border bg-card">
+      <div className="max-w-3xl mx-auto px-4 py-3">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-6 gap-y-3">
+          {WEIGHT_CONTROLS.map(c => (
+            <div key={c.key}>
+              <div className="flex items-baseline justify-between mb-1.5">
+                <label className="text-[11px] font-semibold text-foreground">{c.label}</label>
+                <span className={`text-[11px] font-mono ${weights[c.key] !== DEFAULT_WEIGHTS[c.key] ? "text-primary font-bold" : "text-muted-foreground"}`}>
+                  ×{weights[c.key]}
+                </span>
+              </div>
+              <Slider
+                min={c.min}
+                max={c.max}
+                step={c.step}
+                value={[weights[c.key]]}
+                onValueChange={([value]) => onChange({ ...weights, [c.key]: value })}
+                aria-label={c.label}
+              />
+              <p className="text-[9px] text-muted-foreground mt-1">{c.hint}</p>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex items-center justify-end gap-2 mt-3">
+          <button
+            onClick={() => onChange({ ...DEFAULT_WEIGHTS })}
+            disabled={isDefault}
+            className="flex items-center gap-1 text-[11px] font-semibold px-2.5 py-1 rounded-full bg-muted text-muted-foreground hover:text-foreground disabled:opacity-40 transition-colors"
+          >
+            <RotateCcw className="w-3 h-3" />
+            Reset
+          </button>
+          <button
+            onClick={copyLink}
+            disabled={isDefault}
+            className="flex items-center gap-1 text-[11px] font-semibold px-2.5 py-1 rounded-full bg-primary text-primary-foreground hover:bg-primary/90 disabled:opacity-40 transition-colors"
+          >
+            {copied ? <Check className="w-3 h-3" /> : <Link2 className="w-3 h-3" />}
+            {copied ? "Copied" : "Copy link"}
+          </button>
+        </div>
       </div>
     </div>
   );
@@ -265,10 +444,30 @@ export default function Top100() {
   const [mode, setMode] = useState<SortMode>("ranked");
   const [regionFilter, setRegionFilter] = useState<string>("ALL");
 
-  // Pre-compute composite scores once
+  // The URL is the source of truth for the weighting, so it can be shared
+  const [location, setLocation] = useLocation();
+  const search = useSearch();
+  const weights = useMemo(() => parseWeights(new URLSearchParams(search).get("weights")), [search]);
+  const isCustom = !isDefaultWeighting(weights);
+  const [showWeights, setShowWeights] = useState(isCustom);
+
+  // Replaces the history entry — a slider drag would otherwise push dozens
+  const setWeights = (next: RankingWeights) => {
+    const params = new URLSearchParams(search);
+    const value = formatWeights(next);
+    if (value) params.set("weights", value);
+    else params.delete("weights");
+    const query = params.toString();
+    setLocation(`${location}${query ? `?${query}` : ""}`, { replace: true });
+  };
+
+  // Recomputed whenever the weights change
   const scored = useMemo(() =>
-    allTreks.map(t => ({ ...t, _score: compositeScore(t) })),
-    [allTreks]
+    allTreks.map(t => {
+      const breakdown = scoreBreakdown(t, weights);
+      return { ...t, _breakdown: breakdown, _score: breakdown.total };
+    }),
+    [allTreks, weights]
   );
 
   const displayTreks = useMemo(() => {
@@ -317,6 +516,9 @@ export default function Top100() {
 
   const currentPreset = PRESETS.find(p => p.key === mode)!;
 
+  // Bars are scaled to the highest score shown
+  const maxTotal = useMemo(() => Math.max(0, ...displayTreks.map(t => t._score)), [displayTreks]);
+
   return (
     <div className="min-h-screen bg-background flex flex-col">
       <Helmet>
@@ -407,8 +609,22 @@ export default function Top100() {
             </div>
           )}
 
+          {/* Weights toggle */}
+          <button
+            onClick={() => setShowWeights(v => !v)}
+            aria-expanded={showWeights}
+            className={`flex items-center gap-1 text-[10px] font-semibold px-2 py-1 rounded-full whitespace-nowrap transition-all shrink-0 ml-auto
+              ${showWeights || isCustom
+                ? "bg-primary text-primary-foreground"
+                : "bg-muted hover:bg-muted/80 text-muted-foreground"
+              }`}
+          >
+            <SlidersHorizontal className="w-3 h-3" />
+            {isCustom ? "Custom weights" : "Weights"}
+          </button>
+
           {/* Count */}
-          <span className="text-[11px] text-muted-foreground font-medium shrink-0 ml-auto">
+          <span className="text-[11px] text-muted-foreground font-medium shrink-0">
             {mode === "short" ? `${displayTreks.length} short treks` :
              mode === "hidden" ? `${displayTreks.length} hidden gems` :
              mode === "region" ? `${allTreks.length} treks` :
@@ -417,6 +633,8 @@ export default function Top100() {
         </div>
       </div>
 
+      {showWeights && <WeightsPanel weights={weights} onChange={setWeights} />}
+
       {/* ── List ───────────────────────────────────────────────────────────── */}
       <main className="flex-1 max-w-3xl mx-auto w-full px-4 py-4 pb-20">
 
@@ -425,6 +643,7 @@ export default function Top100() {
           {currentPreset.icon}
           {currentPreset.description}
           {mode === "short" && " · Tier 4 thru-hikes excluded"}
+          {isCustom && " · custom weighting"}
         </p>
 
         {/* Region view — grouped by continent */}
@@ -433,7 +652,7 @@ export default function Top100() {
             {REGIONS.map(region => {
               const regionTreks = displayTreks.filter(t => t.region === region);
               if (regionTreks.length === 0) return null;
-              return <RegionSection key={region} region={region} treks={regionTreks} />;
+              return <RegionSection key={region} region={region} treks={regionTreks} maxTotal={maxTotal} />;
             })}
           </div>
         ) : (
@@ -446,7 +665,7 @@ export default function Top100() {
               </div>
             ) : (
               displayTreks.map((trek, i) => (
-                <TrekRow key={trek.id} trek={trek} rank={i + 1} />
+                <TrekRow key={trek.id} trek={trek} rank={i + 1} maxTotal={maxTotal} />
               ))
             )}
           </div>
@@ -7,8 +7,8 @@
 // 4. Map Suspense fallback matches actual map height (prevents CLS)
 // 5. useEffect deps tightened
 
-import { getTrekById, getItineraryAsync, getEditorialContentAsync } from "@/lib/treks";
-import { useRoute, Link, useSearch, useLocation } from "wouter";
+import { getTrekById, getItineraryAsync, getEditorialContent, getEditorialContentAsync, peekItineraryFile } from "@/lib/treks";
+import { useRoute, Link, useSearch, useLocation, Redirect } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { RiskTag, getRiskTags } from "@/components/RiskTag";
@@ -16,7 +16,7 @@ import {
   ChevronLeft, MapPin, Calendar, Mountain, Bookmark, BookOpen, ExternalLink,
   Clock, Activity, TrendingUp, Info, Sparkles, CheckCircle2,
   Bed, Tent, Home, Building2, AlertTriangle, Share2, Link2,
-  DollarSign, Users, Backpack
+  DollarSign, Users, Backpack, Download
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useState, useMemo, useEffect, useRef, Suspense, lazy } from "react";
@@ -26,6 +26,12 @@ import { Helmet } from "react-helmet-async";
 import { useTrekList } from "@/hooks/useTrekList";
 import { useAuth } from "@/hooks/useAuth";
 import { AuthModal } from "@/components/AuthModal";
+import { downloadRoute } from "@/lib/routeDownload";
+import type { RouteFormat } from "@shared/routeExport";
+import { jsonLd, trekNodes, breadcrumbNode } from "@/lib/structured-data";
+import { getTrekBreadcrumb } from "@/lib/seo-pages";
+import { resolveTrekId } from "@shared/trekAliases";
+import NotFound from "@/pages/not-found";
 
 const RouteMap = lazy(() => import("@/components/RouteMap"));
 
@@ -421,9 +427,17 @@ export default function TrekDetail() {
   const [, setLocation] = useLocation();
 
   // ── Async data state ──────────────────────────────────────────────────────
-  const [itinerary, setItinerary]   = useState<any[] | null>(null);
-  const [editorial, setEditorial]   = useState<any | null>(null);
-  const [dataLoading, setDataLoading] = useState(true);
+  // Prerendered pages embed their itinerary file (see lib/prerender.ts), so
+  // the first render already has it and matches the server HTML.
+  const primed = trekId ? peekItineraryFile(trekId) : undefined;
+  const [itinerary, setItinerary]   = useState<any[] | null>(() => primed?.itinerary ?? null);
+  const [editorial, setEditorial]   = useState<any | null>(() => (trekId ? getEditorialContent(trekId) : null));
+  const [dataLoading, setDataLoading] = useState(primed === undefined);
+
+  // The map is browser-only (Mapbox); render its skeleton until mounted so
+  // hydration of a prerendered page matches.
+  const [mounted, setMounted] = useState(false);
+  useEffect(() => { setMounted(true); }, []);
 
   useEffect(() => { window.scrollTo(0, 0); }, [trekId]);
 
@@ -434,9 +448,12 @@ export default function TrekDetail() {
     if (!trekId) return;
     let isMounted = true;
 
-    setItinerary(null);
-    setEditorial(null);
-    setDataLoading(true);
+    // Already loaded (or primed) — keep showing it while the cached promise resolves
+    if (peekItineraryFile(trekId) === undefined) {
+      setItinerary(null);
+      setEditorial(null);
+      setDataLoading(true);
+    }
 
     Promise.all([
       getItineraryAsync(trekId),
@@ -459,6 +476,9 @@ export default function TrekDetail() {
   const trekStatus = trek ? getStatus(trek.id) : null;
   const [bookmarkOpen, setBookmarkOpen] = useState(false);
   const [authOpen, setAuthOpen] = useState(false);
+  const [routeFileState, setRouteFileState] = useState<"idle" | "working" | "unavailable">("idle");
+
+  useEffect(() => { setRouteFileState("idle"); }, [trekId]);
 
   // ── SEO meta (safe to compute with null-guards) ────────────────────────────
   const pageTitle       = trek ? `${trek.name} Trek Guide — ${trek.country} | TrekMind` : "Trek not found | TrekMind";
@@ -466,15 +486,14 @@ export default function TrekDetail() {
   const pageUrl         = `https://trekmind.pages.dev/trek/${trekId}`;
   const pageImage       = trek ? getTrekImageUrl(trek.imageFilename) : "";
 
-  if (!trek) {
-    return (
-      <div className="flex flex-col items-center justify-center h-[50vh]">
-        <h1 className="text-2xl font-bold text-foreground">Trek not found</h1>
-        <Link href="/"><Button variant="ghost">Return to Home</Button></Link>
-      </div>
-    );
+  // Legacy slug (e.g. /trek/everest-base-camp) — replace it with the canonical
+  // URL; the static host and server answer these with a 301 already.
+  if (trekId && resolveTrekId(trekId) !== trekId) {
+    return <Redirect to={`/trek/${resolveTrekId(trekId)}${search ? `?${search}` : ""}`} replace />;
   }
 
+  if (!trek) return <NotFound slug={trekId} />;
+
   return (
     <div className="min-h-screen bg-background pb-20">
       <Helmet>
@@ -494,20 +513,12 @@ export default function TrekDetail() {
         <meta name="twitter:description" content={pageDescription} />
         <meta name="twitter:image"       content={pageImage} />
         {/* JSON-LD structured data — helps Google show rich results */}
-        <script type="application/ld+json">{JSON.stringify({
-          "@context": "https://schema.org",
-          "@type": "TouristAttraction",
-          "name": trek.name,
-          "description": pageDescription,
-          "url": pageUrl,
-          "image": pageImage,
-          "address": {
-            "@type": "PostalAddress",
-            "addressCountry": trek.country,
-            "addressRegion": trek.region,
-          },
-          "touristType": "Trekking / Hiking",
-        })}</script>
+        <script type="application/ld+json">
+          {jsonLd(
+            ...trekNodes(trek, pageUrl, pageDescription, itinerary),
+            breadcrumbNode(getTrekBreadcrumb(trek), pageUrl),
+          )}
+        </script>
       </Helmet>
 
       {/* ── Hero Section ─────────────────────────────────────────────────── */}
@@ -696,14 +707,44 @@ export default function TrekDetail() {
 
         {/* Interactive Route Map */}
         <div className="pt-8 border-t">
-          <h2 className="text-2xl font-bold mb-2">Interactive Route Map</h2>
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h2 className="text-2xl font-bold">Interactive Route Map</h2>
+            {itinerary && itinerary.length > 0 && (
+              routeFileState === "unavailable" ? (
+                <span className="text-sm text-muted-foreground">No GPS data for this trek</span>
+              ) : (
+                <div className="flex flex-wrap items-center gap-2">
+                  {([
+                    { format: "gpx",     label: "Download GPX" },
+                    { format: "kml",     label: "KML" },
+                    { format: "geojson", label: "GeoJSON" },
+                  ] as { format: RouteFormat; label: string }[]).map(({ format, label }) => (
+                    <Button
+                      key={format}
+                      variant="outline"
+                      size="sm"
+                      disabled={routeFileState !== "idle"}
+                      onClick={async () => {
+                        setRouteFileState("working");
+                        const ok = await downloadRoute(trek, format);
+                        setRouteFileState(ok ? "idle" : "unavailable");
+                      }}
+                    >
+                      <Download className="w-4 h-4 mr-1.5" />
+                      {label}
+                    </Button>
+                  ))}
+                </div>
+              )
+            )}
+          </div>
           {/*
             ✅ MapSkeleton matches h-[500px] — prevents CLS while Mapbox chunk downloads.
             RouteMap lazy chunk (~300KB) only downloads here, never on the homepage.
           */}
           <Suspense fallback={<MapSkeleton />}>
             {itinerary && itinerary.length > 0 ? (
-              <RouteMap stops={itinerary} trek={trek} />
+              mounted ? <RouteMap stops={itinerary} trek={trek} /> : <MapSkeleton />
             ) : dataLoading ? (
               <MapSkeleton />
             ) : (
@@ -861,7 +902,7 @@ export default function TrekDetail() {
                 <span className="font-semibold text-muted-foreground/80">AI-generated content:</span> Trek itineraries, risk information, and gear recommendations are AI-generated and intended for planning inspiration only. Details may be incomplete or inaccurate. Always verify routes, permits, weather conditions, and equipment requirements with official sources or certified guides before setting out. TrekMind has no affiliation with any gear brands mentioned.
               </p>
               <p className="text-xs text-muted-foreground leading-relaxed">
-                <span className="font-semibold text-muted-foreground/80">Route map:</span> The interactive map shows key waypoints and overnight stops only — it is not a navigation tool and should not be used in the field. For full trail maps and GPS tracks, use{" "}
+                <span className="font-semibold text-muted-foreground/80">Route map:</span> The interactive map and the route downloads (GPX, KML, GeoJSON) show key waypoints and overnight stops only, joined by straight lines — they are not navigation tools and should not be used in the field. For full trail maps and GPS tracks, use{" "}
                 <a href="https://www.alltrails.com" target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-foreground transition-colors">AllTrails</a>,{" "}
                 <a href="https://www.gaiagps.com" target="_blank" rel="noopener noreferrer" className="underline underline-offset-2 hover:text-foreground transition-colors">Gaia GPS</a>,
                 {" "}or download the official GPX from the relevant trail authority.
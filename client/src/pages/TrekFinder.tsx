@@ -1,21 +1,32 @@
 // TrekFinder.tsx
 // AI-powered trek recommendation page at /trek-finder
 // V1: smart local scoring against real trek database
-// V2: Anthropic API natural language layer (optional — set AI_MODE = true)
+// V2: free-text queries, read offline by lib/finder-query.ts into the same
+//     Prefs plus month / country / altitude / budget constraints
+//
+// The answers live in the URL once results are shown
+// (/trek-finder?duration=medium&experience=intermediate&…), so a refresh or a
+// shared link reproduces the same ranked results. Each run is also kept in the
+// user's past sessions (useFinderSessions).
 
-import { useState, useCallback, useRef, useEffect } from "react";
-import { Link } from "wouter";
+import { useState, useCallback, useRef, useEffect, useMemo } from "react";
+import { Link, useLocation, useSearch } from "wouter";
 import { Helmet } from "react-helmet-async";
 import { getAllTreks } from "@/lib/treks";
 import { getTrekImageUrl } from "@/lib/images";
 import {
   ChevronLeft, Sparkles, Mountain, Clock, Tent, Globe,
-  MapPin, TrendingUp, ArrowRight, RotateCcw, ChevronDown, ChevronUp
+  MapPin, TrendingUp, ArrowRight, RotateCcw, ChevronDown, ChevronUp,
+  History, Link2, Check, X, Search
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-// ── Toggle this to enable the Anthropic API layer ────────────────────────────
-const AI_MODE = false; // set true once you want natural language queries
+import { useFinderSessions } from "@/hooks/useFinderSessions";
+import {
+  BUDGET_LEVELS, EMPTY_PREFS, constraintsFromParams, parseFinderQuery, setConstraintParams,
+  type BudgetLevel, type FinderConstraints, type Prefs,
+} from "@/lib/finder-query";
+import { MONTHS, getAllCountries, getSeasonStatus, getTrekCountries } from "@/lib/seo-pages";
+import { MAX_FINDER_QUERY_LENGTH, type FinderSession } from "@shared/schema";
 
 // ── Field parsing helpers (real trek data uses strings like "10 days", "2752m") ──
 function parseDays(raw: any): number {
@@ -23,7 +34,7 @@ function parseDays(raw: any): number {
   return m ? parseInt(m[0]) : 0;
 }
 function parseAlt(raw: any): number {
-  const m = String(raw ?? "").match(/\d+/);
+  const m = String(raw ?? "").replace(/(\d),(\d{3})/g, "$1$2").match(/\d+/); // "5,535 m"
   return m ? parseInt(m[0]) : 0;
 }
 
@@ -53,16 +64,6 @@ function deriveDifficulty(trek: any): "Easy" | "Moderate" | "Hard" | "Extreme" {
   return "Easy";
 }
 
-// ── Preference types ──────────────────────────────────────────────────────────
-interface Prefs {
-  duration:      "short" | "medium" | "long" | "epic" | "";
-  experience:    "beginner" | "intermediate" | "experienced" | "expert" | "alpinist" | "";
-  altitude:      "low" | "moderate" | "high" | "extreme" | "";
-  accommodation: "lodges" | "camping" | "either" | "";
-  region:        string;
-  vibe:          "iconic" | "remote" | "scenic" | "cultural" | "summit" | "";
-}
-
 // ── Scoring engine ────────────────────────────────────────────────────────────
 interface ScoredTrek {
   trek: any;
@@ -71,8 +72,11 @@ interface ScoredTrek {
   matchPct: number;
 }
 
-function scoreTrek(trek: any, prefs: Prefs): ScoredTrek {
+// Questions left unanswered (a free-text query rarely covers all six) neither
+// add nor cost points, and don't count towards the match percentage.
+function scoreTrek(trek: any, prefs: Prefs, constraints: FinderConstraints = {}): ScoredTrek {
   let score = 0;
+  let maxScore = 9; // tier bonus
   const reasons: string[] = [];
   const days  = parseDays(trek.totalDays);
   const alt   = parseAlt(trek.maxAltitude);
@@ -83,26 +87,33 @@ function scoreTrek(trek: any, prefs: Prefs): ScoredTrek {
   const durRanges: Record<string, [number, number]> = {
     short: [1, 5], medium: [6, 10], long: [11, 18], epic: [19, 9999],
   };
-  const [dMin, dMax] = durRanges[prefs.duration] || [0, 99];
-  if (days >= dMin && days <= dMax) {
-    score += 30;
-    reasons.push(`${days} days — perfect for a ${prefs.duration} trip`);
-  } else {
-    const mid = (dMin + dMax) / 2;
-    if (Math.abs(days - mid) <= 4) { score += 12; }
-    else { score -= 10; }
+  if (prefs.duration) {
+    maxScore += 30;
+    const [dMin, dMax] = durRanges[prefs.duration] || [0, 99];
+    if (days >= dMin && days <= dMax) {
+      score += 30;
+      reasons.push(`${days} days — perfect for a ${prefs.duration} trip`);
+    } else {
+      const mid = (dMin + dMax) / 2;
+      if (Math.abs(days - mid) <= 4) { score += 12; }
+      else { score -= 10; }
+    }
   }
 
   // ── Altitude (25 pts) ───────────────────────────────────────────────────────
   const altCeilings: Record<string, number> = {
     low: 2600, moderate: 4000, high: 5200, extreme: 9999,
   };
-  const ceiling = altCeilings[prefs.altitude] || 9999;
-  if (alt <= ceiling) {
-    score += 25;
-    reasons.push(`Max ${alt}m — within your altitude comfort zone`);
-  } else {
-    score -= 25; // hard penalise: safety matters
+  // An exact limit ("under 4500m") overrides the answer's band
+  if (prefs.altitude || constraints.maxAltitude) {
+    maxScore += 25;
+    const ceiling = constraints.maxAltitude ?? (altCeilings[prefs.altitude] || 9999);
+    if (alt <= ceiling) {
+      score += 25;
+      reasons.push(`Max ${alt}m — within your altitude comfort zone`);
+    } else {
+      score -= 25; // hard penalise: safety matters
+    }
   }
 
   // ── Experience / difficulty (20 pts) ───────────────────────────────────────
@@ -110,28 +121,35 @@ function scoreTrek(trek: any, prefs: Prefs): ScoredTrek {
   const expRank:  Record<string, number> = {
     beginner: 1, intermediate: 2, experienced: 3, expert: 4, alpinist: 4,
   };
-  const gap = Math.abs(diffRank[diff] - (expRank[prefs.experience] || 2));
-  if (gap === 0)      { score += 20; reasons.push(`${diff} difficulty — matches your experience`); }
-  else if (gap === 1) { score += 8; }
-  else if (gap >= 2)  { score -= 15; }
+  if (prefs.experience) {
+    maxScore += 20;
+    const gap = Math.abs(diffRank[diff] - (expRank[prefs.experience] || 2));
+    if (gap === 0)      { score += 20; reasons.push(`${diff} difficulty — matches your experience`); }
+    else if (gap === 1) { score += 8; }
+    else if (gap >= 2)  { score -= 15; }
+  }
 
   // ── Accommodation (15 pts) ──────────────────────────────────────────────────
-  if (prefs.accommodation === "either") {
-    score += 15;
-  } else if (prefs.accommodation === "lodges" && (acc === "lodges" || acc === "mixed")) {
-    score += 15;
-    reasons.push(`Lodge/hut accommodation available`);
-  } else if (prefs.accommodation === "camping" && (acc === "camping" || acc === "mixed")) {
-    score += 15;
-    reasons.push(`Camping-based adventure`);
-  } else {
-    score -= 5;
+  if (prefs.accommodation) {
+    maxScore += 15;
+    if (prefs.accommodation === "either") {
+      score += 15;
+    } else if (prefs.accommodation === "lodges" && (acc === "lodges" || acc === "mixed")) {
+      score += 15;
+      reasons.push(`Lodge/hut accommodation available`);
+    } else if (prefs.accommodation === "camping" && (acc === "camping" || acc === "mixed")) {
+      score += 15;
+      reasons.push(`Camping-based adventure`);
+    } else {
+      score -= 5;
+    }
   }
 
   // ── Region (15 pts) ─────────────────────────────────────────────────────────
+  if (prefs.region) maxScore += 15;
   if (prefs.region === "anywhere") {
     score += 10;
-  } else {
+  } else if (prefs.region) {
     const tregion = (trek.region ?? "").toLowerCase();
     const prefR   = prefs.region.toLowerCase();
     // "Himalaya" maps to Asia in our database
@@ -145,6 +163,7 @@ function scoreTrek(trek: any, prefs: Prefs): ScoredTrek {
   }
 
   // ── Vibe (10 pts) ───────────────────────────────────────────────────────────
+  if (prefs.vibe) maxScore += 10;
   const pop  = trek.popularityScore ?? 5;
   const terr = (trek.terrain ?? "").toLowerCase();
   const feat = (trek.keyFeatures ?? "").toLowerCase();
@@ -166,41 +185,56 @@ function scoreTrek(trek: any, prefs: Prefs): ScoredTrek {
     : Math.max(0, (4 - trek.tier)) * 3;
   score += tierBonus;
 
-  const MAX_SCORE = 30 + 25 + 20 + 15 + 15 + 10 + 9;
-  const matchPct  = Math.round(Math.max(0, Math.min(100, (score / MAX_SCORE) * 100)));
+  // ── Constraints from a free-text query ──────────────────────────────────────
+  // getTopMatches has already dropped treks outside them; these add the points
+  // and reasons for how well the rest fit.
+  if (constraints.country) {
+    maxScore += 15;
+    score += 15;
+    reasons.push(`In ${constraints.country}`);
+  }
+  if (constraints.month) {
+    maxScore += 10;
+    const month  = MONTHS[constraints.month - 1].label;
+    const season = getSeasonStatus(trek, constraints.month);
+    if (season === "peak")       { score += 10; reasons.push(`${month} is peak season`); }
+    if (season === "year-round") { score += 10; reasons.push(`Trekkable all year, ${month} included`); }
+    if (season === "shoulder")   { score += 5;  reasons.push(`${month} is shoulder season — quieter, less settled weather`); }
+  }
+  if (constraints.budget && trek.budget) {
+    reasons.push(`${trek.budget} budget`);
+  }
+  if (constraints.maxCostUsd && trek.costIndependent?.usd) {
+    const [low, high] = trek.costIndependent.usd;
+    reasons.push(`About $${low.toLocaleString("en-US")}–${high.toLocaleString("en-US")} independently`);
+  }
+
+  const matchPct  = Math.round(Math.max(0, Math.min(100, (score / maxScore) * 100)));
 
   return { trek, score: Math.max(0, score), reasons: reasons.slice(0, 3), matchPct };
 }
 
-function getTopMatches(prefs: Prefs): ScoredTrek[] {
+// Constraints are hard limits: a trek outside any of them is never a match.
+// Unknown values (no season, budget or cost data) don't rule a trek out.
+function meetsConstraints(trek: any, c: FinderConstraints): boolean {
+  if (c.country && !getTrekCountries(trek).includes(c.country)) return false;
+  if (c.maxAltitude && parseAlt(trek.maxAltitude) > c.maxAltitude) return false;
+  if (c.month && !getSeasonStatus(trek, c.month) && MONTHS.some(m => getSeasonStatus(trek, m.month))) return false;
+  if (c.budget && trek.budget && BUDGET_LEVELS.indexOf(trek.budget) > BUDGET_LEVELS.indexOf(c.budget)) return false;
+  if (c.maxCostUsd && trek.costIndependent?.usd && trek.costIndependent.usd[0] > c.maxCostUsd) return false;
+  return true;
+}
+
+function getTopMatches(prefs: Prefs, constraints: FinderConstraints = {}): ScoredTrek[] {
   const allTreks = getAllTreks() as any[];
   return allTreks
-    .map(t => scoreTrek(t, prefs))
+    .filter(t => meetsConstraints(t, constraints))
+    .map(t => scoreTrek(t, prefs, constraints))
     .filter(r => r.score > 0)
     .sort((a, b) => b.score - a.score)
     .slice(0, 5);
 }
 
-// ── Anthropic AI layer (V2 — natural language) ───────────────────────────────
-async function getAIInsight(trek: any, prefs: Prefs): Promise<string> {
-  const prompt = `You are a trekking expert. In 2 sentences, explain why the ${trek.name} trek (${trek.country}, ${trek.totalDays}, max ${trek.maxAltitude}) is a great match for someone who wants a ${prefs.duration} ${prefs.experience}-level trek with ${prefs.accommodation} accommodation in ${prefs.region === "anywhere" ? "any region" : prefs.region}. Be specific and enthusiastic.`;
-  try {
-    const res = await fetch("https://api.anthropic.com/v1/messages", {
-      method: "POST",
-      headers: { "Content-Type": "application/json" },
-      body: JSON.stringify({
-        model: "claude-sonnet-4-20250514",
-        max_tokens: 120,
-        messages: [{ role: "user", content: prompt }],
-      }),
-    });
-    const data = await res.json();
-    return data.content?.[0]?.text ?? "";
-  } catch {
-    return "";
-  }
-}
-
 // ── Sub-components ────────────────────────────────────────────────────────────
 
 function OptionButton({
@@ -386,6 +420,94 @@ function TrekResultCard({ result, rank }: { result: ScoredTrek; rank: number })
   );
 }
 
+function PastSessions({ sessions, current, onDelete }: {
+  sessions: FinderSession[]; current?: string; onDelete: (id: string) => void;
+}) {
+  // Scoring the catalog per session is too slow to repeat on every render of
+  // the page (each keystroke in the query box), so it runs when sessions change
+  const described = useMemo(() => sessions.map(session => {
+    const state = finderFromParams(new URLSearchParams(session.query));
+    return { session, state, top: getTopMatches(state.prefs, state.constraints)[0] };
+  }), [sessions]);
+  const list = described.filter(d => d.session.query !== current);
+  if (list.length === 0) return null;
+  return (
+    <div className="space-y-2">
+      <h2 className="flex items-center gap-1.5 text-sm font-semibold text-foreground">
+        <History className="w-4 h-4 text-muted-foreground" />
+        Your past searches
+      </h2>
+      <div className="space-y-1.5 max-h-72 overflow-y-auto">
+        {list.map(({ session, state, top }) => (
+          <div key={session.id} className="group flex items-center gap-2 rounded-xl border border-border bg-card hover:bg-muted/30 transition-colors">
+            <Link href={`/trek-finder?${session.query}`} className="flex-1 min-w-0 px-3 py-2">
+              <div className="text-xs font-medium text-foreground truncate">{describeFinder(state)}</div>
+              <div className="text-[11px] text-muted-foreground truncate">
+                {new Date(session.savedAt).toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" })}
+                {top && ` · Top match: ${top.trek.name}`}
+              </div>
+            </Link>
+            <button
+              onClick={() => onDelete(session.id)}
+              aria-label="Remove this search"
+              className="p-2 mr-1 text-muted-foreground/50 hover:text-foreground transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function QueryChips({ state, onChange }: {
+  state: FinderState; onChange: (next: FinderState) => void;
+}) {
+  const unset = CHIP_FIELDS.filter(f => !fieldValue(state, f.key));
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {CHIP_FIELDS.filter(f => fieldValue(state, f.key)).map(field => {
+        const value = fieldValue(state, field.key);
+        return (
+          <span key={field.key} className="flex items-center gap-1 text-xs bg-primary/10 text-primary border border-primary/20 rounded-full pl-3 pr-1 py-0.5">
+            <span className="opacity-60">{field.name}:</span>
+            <select
+              value={value}
+              onChange={e => onChange(withField(state, field.key, e.target.value))}
+              aria-label={field.name}
+              className="bg-transparent font-medium cursor-pointer focus:outline-none"
+            >
+              {fieldOptions(field, value).map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+            </select>
+            <button
+              onClick={() => onChange(withField(state, field.key, ""))}
+              aria-label={`Remove ${field.name.toLowerCase()}`}
+              className="p-0.5 rounded-full hover:bg-primary/20 transition-colors"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </span>
+        );
+      })}
+      {unset.length > 0 && (
+        <select
+          value=""
+          onChange={e => {
+            const field = CHIP_FIELDS.find(f => f.key === e.target.value);
+            if (field) onChange(withField(state, field.key, field.options[0].value));
+          }}
+          aria-label="Add a preference"
+          className="text-xs text-muted-foreground bg-transparent border border-dashed border-border rounded-full px-3 py-1 cursor-pointer hover:text-foreground focus:outline-none"
+        >
+          <option value="">+ Add…</option>
+          {unset.map(f => <option key={f.key} value={f.key}>{f.name}</option>)}
+        </select>
+      )}
+    </div>
+  );
+}
+
 // ── Questions data ────────────────────────────────────────────────────────────
 const STEPS = [
   {
@@ -463,10 +585,112 @@ const STEPS = [
 // ── Main page ─────────────────────────────────────────────────────────────────
 type Phase = "intro" | "questions" | "thinking" | "results";
 
-const EMPTY_PREFS: Prefs = {
-  duration: "", experience: "", altitude: "",
-  accommodation: "", region: "", vibe: "",
-};
+// ── URL encoding ──────────────────────────────────────────────────────────────
+// One parameter per question, in question order (values not offered by the
+// question are dropped), then the constraints and the typed query as `q`.
+type PrefKey = keyof Prefs;
+
+interface FinderState {
+  prefs: Prefs;
+  constraints: FinderConstraints;
+  text: string; // the free-text query, "" for quiz answers
+}
+
+function finderToQuery({ prefs, constraints, text }: FinderState): string {
+  const params = new URLSearchParams();
+  for (const step of STEPS) {
+    const value = prefs[step.key as PrefKey];
+    if (value) params.set(step.key, value);
+  }
+  setConstraintParams(params, constraints);
+  // Long text is cut so the query still fits a saved session
+  for (let q = text; q; q = q.slice(0, -10).trim()) {
+    params.set("q", q);
+    if (params.toString().length <= MAX_FINDER_QUERY_LENGTH) break;
+    params.delete("q");
+  }
+  return params.toString();
+}
+
+function finderFromParams(params: URLSearchParams): FinderState {
+  const prefs = { ...EMPTY_PREFS };
+  for (const step of STEPS) {
+    const value = params.get(step.key)?.toLowerCase();
+    if (value && step.options.some(o => o.value === value)) {
+      (prefs as Record<PrefKey, string>)[step.key as PrefKey] = value;
+    }
+  }
+  return { prefs, constraints: constraintsFromParams(params), text: params.get("q")?.trim() ?? "" };
+}
+
+// Anything to match against — a finished quiz or whatever a query was read as
+const hasAnswers = ({ prefs, constraints }: FinderState) =>
+  STEPS.some(step => prefs[step.key as PrefKey]) || Object.keys(constraints).length > 0;
+
+// ── Editable chips ────────────────────────────────────────────────────────────
+// Every answer and constraint as a field with a fixed list of values, so the
+// interpreted query can be corrected one chip at a time.
+type FieldKey = PrefKey | keyof FinderConstraints;
+
+interface ChipField {
+  key: FieldKey;
+  name: string;
+  options: { value: string; label: string }[];
+}
+
+const altLabel  = (m: number) => `Below ${m.toLocaleString("en-US")}m`;
+const costLabel = (usd: number) => `Under $${usd.toLocaleString("en-US")}`;
+
+const CHIP_FIELDS: ChipField[] = [
+  ...STEPS.map(step => ({
+    key: step.key as FieldKey,
+    name: step.key.charAt(0).toUpperCase() + step.key.slice(1),
+    options: step.options.map(o => ({ value: o.value, label: o.label })),
+  })),
+  { key: "month", name: "Month", options: MONTHS.map(m => ({ value: String(m.month), label: m.label })) },
+  { key: "country", name: "Country", options: getAllCountries().map(c => ({ value: c.name, label: c.name })).sort((a, b) => a.label.localeCompare(b.label)) },
+  { key: "maxAltitude", name: "Max altitude", options: [2000, 2500, 3000, 3500, 4000, 4500, 5000, 5500, 6000].map(m => ({ value: String(m), label: altLabel(m) })) },
+  { key: "budget", name: "Budget", options: BUDGET_LEVELS.map(b => ({ value: b, label: `${b} budget` })) },
+  { key: "maxCostUsd", name: "Cost", options: [500, 1000, 1500, 2000, 3000, 4000, 5000].map(usd => ({ value: String(usd), label: costLabel(usd) })) },
+];
+
+const isPrefKey = (key: FieldKey): key is PrefKey => key in EMPTY_PREFS;
+
+function fieldValue(state: FinderState, key: FieldKey): string {
+  return isPrefKey(key) ? state.prefs[key] : String(state.constraints[key] ?? "");
+}
+
+// "" removes the field
+function withField(state: FinderState, key: FieldKey, value: string): FinderState {
+  if (isPrefKey(key)) return { ...state, prefs: { ...state.prefs, [key]: value } };
+  const constraints = { ...state.constraints };
+  if (!value) delete constraints[key];
+  else if (key === "country") constraints.country = value;
+  else if (key === "budget") constraints.budget = value as BudgetLevel;
+  else constraints[key] = Number(value);
+  return { ...state, constraints };
+}
+
+// A parsed value between the listed ones ("under 15,000 ft" → 4572m) is kept
+function fieldOptions(field: ChipField, value: string): ChipField["options"] {
+  if (!value || field.options.some(o => o.value === value)) return field.options;
+  const label = field.key === "maxAltitude" ? altLabel(Number(value))
+    : field.key === "maxCostUsd" ? costLabel(Number(value))
+    : value;
+  return [{ value, label }, ...field.options];
+}
+
+// "Medium · Lodges & huts · Nepal · October · …" for a past session
+function describeFinder(state: FinderState): string {
+  if (state.text) return `“${state.text}”`;
+  return CHIP_FIELDS
+    .map(field => {
+      const value = fieldValue(state, field.key);
+      return value ? fieldOptions(field, value).find(o => o.value === value)?.label : undefined;
+    })
+    .filter(Boolean)
+    .join(" · ");
+}
 
 const THINK_STEPS = [
   "Reading your preferences…",
@@ -478,12 +702,24 @@ const THINK_STEPS = [
 ];
 
 export default function TrekFinder() {
-  const [phase, setPhase]           = useState<Phase>("intro");
-  const [prefs, setPrefs]           = useState<Prefs>(EMPTY_PREFS);
+  const [, setLocation] = useLocation();
+  const search = useSearch();
+  const { sessions, recordSession, deleteSession } = useFinderSessions();
+
+  // A link carrying answers or constraints opens straight on its results
+  const [initial] = useState(() => finderFromParams(new URLSearchParams(search)));
+  const [phase, setPhase]           = useState<Phase>(() => hasAnswers(initial) ? "results" : "intro");
+  const [prefs, setPrefs]           = useState<Prefs>(initial.prefs);
+  const [constraints, setConstraints] = useState<FinderConstraints>(initial.constraints);
+  const [queryText, setQueryText]   = useState(initial.text);
+  const [unread, setUnread]         = useState(false);
   const [currentStep, setCurrentStep] = useState(0);
-  const [results, setResults]       = useState<ScoredTrek[]>([]);
+  const [results, setResults]       = useState<ScoredTrek[]>(() => hasAnswers(initial) ? getTopMatches(initial.prefs, initial.constraints) : []);
   const [thinkStep, setThinkStep]   = useState(0);
+  const [copied, setCopied]         = useState(false);
   const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  // Query string of the results on screen ("" when none)
+  const shownQuery = useRef(hasAnswers(initial) ? finderToQuery(initial) : "");
 
   const setP = useCallback(<K extends keyof Prefs>(key: K, val: Prefs[K]) => {
     setPrefs(p => ({ ...p, [key]: val }));
@@ -493,6 +729,19 @@ export default function TrekFinder() {
   const currentValue   = prefs[currentStepDef?.key as keyof Prefs];
   const isLastStep     = currentStep === STEPS.length - 1;
 
+  // Puts `state`'s results on screen and in the URL; a new search (not an
+  // edit of the one shown) also becomes a past session
+  const showResults = useCallback((state: FinderState, edit = false) => {
+    const query = finderToQuery(state);
+    shownQuery.current = query;
+    setPrefs(state.prefs);
+    setConstraints(state.constraints);
+    setQueryText(state.text);
+    setResults(getTopMatches(state.prefs, state.constraints));
+    setLocation(`/trek-finder?${query}`, { replace: edit });
+    if (!edit) recordSession(query);
+  }, [setLocation, recordSession]);
+
   const goNext = useCallback(() => {
     if (!currentValue) return;
     if (isLastStep) {
@@ -505,32 +754,89 @@ export default function TrekFinder() {
         setThinkStep(i);
         if (i >= THINK_STEPS.length) {
           clearInterval(timerRef.current!);
-          const top = getTopMatches(prefs);
-          setResults(top);
+          showResults({ prefs, constraints: {}, text: "" });
           setTimeout(() => setPhase("results"), 400);
         }
       }, 400);
     } else {
       setCurrentStep(s => s + 1);
     }
-  }, [currentValue, isLastStep, prefs]);
+  }, [currentValue, isLastStep, prefs, showResults]);
 
   const goBack = useCallback(() => {
     if (currentStep > 0) setCurrentStep(s => s - 1);
     else setPhase("intro");
   }, [currentStep]);
 
-  const reset = useCallback(() => {
+  const searchText = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const text = queryText.trim();
+    if (!text) return;
+    const parsed = { ...parseFinderQuery(text), text };
+    if (!hasAnswers(parsed)) {
+      setUnread(true);
+      return;
+    }
+    setUnread(false);
+    showResults(parsed);
+    setPhase("results");
+    window.scrollTo({ top: 0 });
+  }, [queryText, showResults]);
+
+  // A corrected chip no longer says what was typed, so the text is dropped
+  const editResults = useCallback((next: FinderState) => {
+    showResults({ ...next, text: "" }, true);
+  }, [showResults]);
+
+  const clearAnswers = useCallback(() => {
     clearInterval(timerRef.current!);
+    shownQuery.current = "";
     setPrefs(EMPTY_PREFS);
+    setConstraints({});
+    setQueryText("");
+    setUnread(false);
     setCurrentStep(0);
     setResults([]);
     setThinkStep(0);
     setPhase("intro");
   }, []);
 
+  const reset = useCallback(() => {
+    clearAnswers();
+    setLocation("/trek-finder");
+  }, [clearAnswers, setLocation]);
+
   useEffect(() => () => clearInterval(timerRef.current!), []);
 
+  // Back / forward and past-session links change the query without a remount
+  useEffect(() => {
+    const fromUrl = finderFromParams(new URLSearchParams(search));
+    if (hasAnswers(fromUrl)) {
+      const query = finderToQuery(fromUrl);
+      if (query === shownQuery.current) return;
+      clearInterval(timerRef.current!);
+      shownQuery.current = query;
+      setPrefs(fromUrl.prefs);
+      setConstraints(fromUrl.constraints);
+      setQueryText(fromUrl.text);
+      setResults(getTopMatches(fromUrl.prefs, fromUrl.constraints));
+      setPhase("results");
+      window.scrollTo({ top: 0 });
+    } else if (shownQuery.current) {
+      clearAnswers(); // back from the results to the bare finder
+    }
+  }, [search, clearAnswers]);
+
+  const copyLink = useCallback(async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch {
+      // clipboard unavailable — the address bar holds the same link
+    }
+  }, []);
+
   // Auto-advance on selection (except last step — show confirm button)
   const handleOptionClick = useCallback((key: string, val: string) => {
     setP(key as keyof Prefs, val as any);
@@ -550,7 +856,7 @@ export default function TrekFinder() {
     <div className="min-h-screen bg-background pb-20">
       <Helmet>
         <title>AI Trek Finder — Find Your Perfect Trek | TrekMind</title>
-        <meta name="description" content="Answer 6 quick questions and TrekMind's AI matches you with your perfect trek from 100 world-class routes. Personalised by experience, altitude, duration and region." />
+        <meta name="description" content="Describe your trip or answer 6 quick questions and TrekMind's AI matches you with your perfect trek from 100 world-class routes. Personalised by experience, altitude, duration and region." />
         <link rel="canonical" href="https://trekmind.pages.dev/trek-finder" />
       </Helmet>
 
@@ -573,7 +879,7 @@ export default function TrekFinder() {
             Find Your Perfect Trek
           </h1>
           <p className="text-white/70 text-sm mt-1">
-            6 questions. Matched from {(getAllTreks() as any[]).length} world-class routes.
+            Describe your trip or answer 6 questions. Matched from {(getAllTreks() as any[]).length} world-class routes.
           </p>
         </div>
       </header>
@@ -613,6 +919,41 @@ export default function TrekFinder() {
               ))}
             </div>
 
+            <form onSubmit={searchText} className="space-y-2">
+              <label htmlFor="finder-query" className="text-sm font-semibold text-foreground">
+                Describe your trip
+              </label>
+              <div className="flex gap-2">
+                <input
+                  id="finder-query"
+                  value={queryText}
+                  onChange={e => { setQueryText(e.target.value); setUnread(false); }}
+                  placeholder="10 days teahouse trek in Nepal in October under 4500m, not too crowded"
+                  maxLength={200}
+                  className="flex-1 min-w-0 bg-card border border-border rounded-xl px-4 py-3 text-sm text-foreground placeholder:text-muted-foreground/60 focus:outline-none focus:border-primary/50"
+                />
+                <button
+                  type="submit"
+                  disabled={!queryText.trim()}
+                  className="flex items-center gap-1.5 bg-primary text-primary-foreground rounded-xl px-4 text-sm font-bold hover:bg-primary/90 transition-colors disabled:opacity-50"
+                >
+                  <Search className="w-4 h-4" />
+                  Search
+                </button>
+              </div>
+              {unread && (
+                <p className="text-xs text-muted-foreground">
+                  Couldn't pick out any preferences — try a length ("10 days"), a country or region, a month, a max altitude or a budget.
+                </p>
+              )}
+            </form>
+
+            <div className="flex items-center gap-3 text-xs text-muted-foreground">
+              <div className="flex-1 h-px bg-border" />
+              or answer 6 quick questions
+              <div className="flex-1 h-px bg-border" />
+            </div>
+
             <button
               onClick={() => setPhase("questions")}
               className="w-full flex items-center justify-center gap-2 bg-primary text-primary-foreground rounded-xl py-4 text-base font-bold hover:bg-primary/90 transition-colors shadow-lg shadow-primary/20"
@@ -620,6 +961,8 @@ export default function TrekFinder() {
               <Sparkles className="w-5 h-5" />
               Start Trek Finder
             </button>
+
+            <PastSessions sessions={sessions} onDelete={deleteSession} />
           </div>
         )}
 
@@ -726,22 +1069,32 @@ export default function TrekFinder() {
                   Matched from {(getAllTreks() as any[]).length} routes worldwide
                 </p>
               </div>
-              <button
-                onClick={reset}
-                className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground border border-border rounded-xl px-3 py-2 hover:bg-muted/30 transition-all"
-              >
-                <RotateCcw className="w-3.5 h-3.5" />
-                Start over
-              </button>
+              <div className="flex items-center gap-2 shrink-0">
+                <button
+                  onClick={copyLink}
+                  className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground border border-border rounded-xl px-3 py-2 hover:bg-muted/30 transition-all"
+                >
+                  {copied ? <Check className="w-3.5 h-3.5" /> : <Link2 className="w-3.5 h-3.5" />}
+                  {copied ? "Copied" : "Share"}
+                </button>
+                <button
+                  onClick={reset}
+                  className="flex items-center gap-1.5 text-sm text-muted-foreground hover:text-foreground border border-border rounded-xl px-3 py-2 hover:bg-muted/30 transition-all"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" />
+                  Start over
+                </button>
+              </div>
             </div>
 
-            {/* Preference summary chips */}
-            <div className="flex flex-wrap gap-2">
-              {Object.entries(prefs).filter(([, v]) => v).map(([k, v]) => (
-                <span key={k} className="text-xs bg-primary/10 text-primary border border-primary/20 rounded-full px-3 py-1 capitalize">
-                  {String(v).replace(/_/g, " ")}
-                </span>
-              ))}
+            {/* What the answers or the query were read as — each chip editable */}
+            <div className="space-y-2">
+              {queryText && (
+                <p className="text-xs text-muted-foreground">
+                  Read from <span className="text-foreground">“{queryText}”</span>
+                </p>
+              )}
+              <QueryChips state={{ prefs, constraints, text: queryText }} onChange={editResults} />
             </div>
 
             <div className="space-y-3">
@@ -753,7 +1106,7 @@ export default function TrekFinder() {
                   <div className="text-center py-12 text-muted-foreground">
                     <Mountain className="w-10 h-10 mx-auto mb-3 opacity-30" />
                     <p className="font-medium">No close matches found</p>
-                    <p className="text-sm mt-1">Try relaxing your altitude or region filters</p>
+                    <p className="text-sm mt-1">Try removing a constraint above, or relaxing your altitude or region</p>
                     <button onClick={reset} className="mt-4 text-primary text-sm underline">Start over</button>
                   </div>
                 )}
@@ -762,9 +1115,11 @@ export default function TrekFinder() {
             {results.length > 0 && (
               <div className="bg-muted/30 border border-border/50 rounded-xl p-4 text-xs text-muted-foreground leading-relaxed">
                 <span className="font-semibold text-foreground/70">How matches work: </span>
-                Each trek is scored against your 6 preferences. Altitude safety is weighted highest — treks above your comfort zone are always excluded. Scores combine duration fit, difficulty match, accommodation type, region, and vibe.
+                Each trek is scored against your preferences. Altitude safety is weighted highest — treks above your comfort zone are always excluded, as are treks outside a country, month, max altitude or budget you set. Scores combine duration fit, difficulty match, accommodation type, region, and vibe.
               </div>
             )}
+
+            <PastSessions sessions={sessions} current={shownQuery.current} onDelete={deleteSession} />
           </div>
         )}
       </main>
@@ -1,9 +1,33 @@
+import { useEffect, useMemo } from "react";
+import { Link, useLocation } from "wouter";
+import { Helmet } from "react-helmet-async";
 import { Card, CardContent } from "@/components/ui/card";
 import { AlertCircle } from "lucide-react";
+import { reportUnresolvedSlug, suggestPages, type SuggestionKind } from "@/lib/did-you-mean";
+
+const KIND_LABEL: Record<SuggestionKind, string> = {
+  trek: "Trek",
+  country: "Country",
+  region: "Region",
+};
+
+// `slug` is the part of the URL that didn't resolve (a trek id, a country
+// slug, …); the catch-all route leaves it out and the last path segment is used.
+export default function NotFound({ slug }: { slug?: string }) {
+  const [location] = useLocation();
+  const query = slug ?? location.split("/").filter(Boolean).pop() ?? "";
+  const suggestions = useMemo(() => suggestPages(query), [query]);
+
+  useEffect(() => {
+    reportUnresolvedSlug(location, suggestions);
+  }, [location, suggestions]);
 
-export default function NotFound() {
   return (
     <div className="min-h-screen w-full flex items-center justify-center bg-gray-50">
+      <Helmet>
+        <title>Page not found | TrekMind</title>
+        <meta name="robots" content="noindex" />
+      </Helmet>
       <Card className="w-full max-w-md mx-4">
         <CardContent className="pt-6">
           <div className="flex mb-4 gap-2">
@@ -11,9 +35,27 @@ export default function NotFound() {
             <h1 className="text-2xl font-bold text-gray-900">404 Page Not Found</h1>
           </div>
 
-          <p className="mt-4 text-sm text-gray-600">
-            Did you forget to add the page to the router?
-          </p>
+          {suggestions.length > 0 ? (
+            <>
+              <p className="mt-4 text-sm text-gray-600">Did you mean:</p>
+              <ul className="mt-2 space-y-1">
+                {suggestions.map((s) => (
+                  <li key={s.href} className="flex items-baseline gap-2 text-sm">
+                    <Link href={s.href} className="font-medium text-primary hover:underline">{s.label}</Link>
+                    <span className="text-xs text-gray-400">{KIND_LABEL[s.kind]}</span>
+                  </li>
+                ))}
+              </ul>
+            </>
+          ) : (
+            <p className="mt-4 text-sm text-gray-600">
+              We couldn't find a trek or page matching this address.
+            </p>
+          )}
+
+          <Link href="/" className="mt-6 inline-block text-sm text-gray-600 hover:text-gray-900 hover:underline">
+            Browse all treks
+          </Link>
         </CardContent>
       </Card>
     </div>
@@ -30,6 +30,31 @@ export interface CompareTrek {
 
 export const MAX_COMPARE = 3;
 
+// Maps raw trek data to the CompareTrek shape the store expects
+export function toCompareTrek(trek: any): CompareTrek {
+  return {
+    id:              trek.id,
+    name:            trek.name,
+    region:          trek.region,
+    country:         trek.country,
+    terrain:         trek.terrain,
+    accommodation:   trek.accommodation,
+    distance:        trek.distance ?? `${trek.distanceKm ?? "?"}km`,
+    totalDays:       trek.totalDays ?? `${trek.durationDays ?? "?"} days`,
+    maxAltitude:     trek.maxAltitude ?? trek.maxAltitudeM ?? "N/A",
+    season:          trek.season ?? trek.bestSeason ?? trek.best_season ?? "Year-round",
+    permits:         trek.permits ?? "Not required",
+    popularityScore: trek.popularityScore ?? 0,
+    tier:            trek.tier ?? 1,
+    durationBucket:  trek.durationBucket ?? "Medium",
+    budget:          trek.budget,
+    costNotes:       trek.costNotes,
+    costIndependent: trek.costIndependent,
+    keyFeatures:     trek.keyFeatures,
+    imageFilename:   trek.imageFilename,
+  };
+}
+
 interface CompareStore {
   selectedTreks:       CompareTrek[];
   isCompareOpen:       boolean;
@@ -14,26 +14,7 @@
 // ─────────────────────────────────────────────────────────────────────────────
 
 import { create } from "zustand";
-
-export interface FilterState {
-  tier:          string[];
-  region:        string[];
-  duration:      string[];
-  terrain:       string[];
-  accommodation: string[];
-  popularity:    string[];
-  month:         string[]; // ← ADDED: numeric strings "1"–"12"
-}
-
-export const EMPTY_FILTERS: FilterState = {
-  tier:          [],
-  region:        [],
-  duration:      [],
-  terrain:       [],
-  accommodation: [],
-  popularity:    [],
-  month:         [], // ← ADDED
-};
+import { EMPTY_FILTERS, type FilterState, type ListFilterKey } from "../types/filters";
 
 interface FilterStore {
   filters:    FilterState;
@@ -47,7 +28,7 @@ interface FilterStore {
   setTier:      (t: string | null) => void;
   setContinent: (c: string | null) => void;
   setMonth:     (m: string | null) => void; // ← ADDED
-  toggleFilter: (key: keyof FilterState, value: string) => void;
+  toggleFilter: (key: ListFilterKey, value: string) => void;
 }
 
 export const useFilterStore = create<FilterStore>((set) => ({
@@ -13,6 +13,44 @@ export interface FilterState {
   popularity:    string[];
   month:         string[]; // ← numeric strings "1"–"12"
   budget:        string[]; // ← "Low" | "Medium" | "High"
+  // Numeric ranges — see RANGE_FILTERS
+  altitude:      NumericRange; // max altitude, m
+  distance:      NumericRange; // km
+  days:          NumericRange;
+  cost:          NumericRange; // independent cost, USD
+}
+
+// Either end may be open: { max: 4000 } is "under 4000 m", {} is no filter
+export interface NumericRange {
+  min?: number;
+  max?: number;
+}
+
+export type RangeKey = 'altitude' | 'distance' | 'days' | 'cost';
+export type ListFilterKey = Exclude<keyof FilterState, RangeKey>;
+
+export interface RangeFilterConfig {
+  key:   RangeKey;
+  label: string;
+  // Slider bounds; a thumb left at a bound leaves that end open, so the top
+  // of the scale reads as "6000+ m" and still includes the 8000 m peaks
+  min:   number;
+  max:   number;
+  step:  number;
+  format: (value: number) => string;
+}
+
+export const RANGE_FILTERS: RangeFilterConfig[] = [
+  { key: 'altitude', label: 'Max Altitude', min: 0, max: 6000, step: 100, format: (v) => `${v.toLocaleString('en-US')} m` },
+  { key: 'distance', label: 'Distance',     min: 0, max: 500,  step: 10,  format: (v) => `${v} km` },
+  { key: 'days',     label: 'Days',         min: 1, max: 30,   step: 1,   format: (v) => `${v} day${v !== 1 ? 's' : ''}` },
+  { key: 'cost',     label: 'Cost (independent)', min: 0, max: 5000, step: 100, format: (v) => `$${v.toLocaleString('en-US')}` },
+];
+
+export const RANGE_KEYS = RANGE_FILTERS.map((r) => r.key);
+
+export function isRangeActive(range: NumericRange | undefined): boolean {
+  return range?.min != null || range?.max != null;
 }
 
 export const EMPTY_FILTERS: FilterState = {
@@ -24,6 +62,10 @@ export const EMPTY_FILTERS: FilterState = {
   popularity:    [],
   month:         [],
   budget:        [], // ← "Low" | "Medium" | "High"
+  altitude:      {},
+  distance:      {},
+  days:          {},
+  cost:          {},
 };
 
 export function countActiveFilters(f: FilterState): number {
@@ -36,8 +78,64 @@ export function countActiveFilters(f: FilterState): number {
     (f.accommodation ?? []).length +
     (f.popularity    ?? []).length +
     (f.month         ?? []).length +
-    (f.budget        ?? []).length
+    (f.budget        ?? []).length +
+    RANGE_KEYS.filter((key) => isRangeActive(f[key])).length
   );
 }
 
 export type FilterKey = keyof FilterState;
+
+// ── URL encoding ──────────────────────────────────────────────────────────────
+// Filters as query parameters on / (?region=Asia&month=10&budget=Low), using
+// the same names as /api/treks (trekQuerySchema in shared/routes.ts). Several
+// values repeat the key; comma-separated lists are accepted when reading.
+// Ranges are "min-max" with either end left empty: ?altitude=-4000&days=7-.
+
+export const FILTER_KEYS = Object.keys(EMPTY_FILTERS).filter(
+  (key) => !(RANGE_KEYS as string[]).includes(key),
+) as ListFilterKey[];
+
+function formatRange({ min, max }: NumericRange): string {
+  return `${min ?? ''}-${max ?? ''}`;
+}
+
+function parseRange(value: string | null): NumericRange {
+  const match = value?.match(/^\s*(\d+(?:\.\d+)?)?\s*-\s*(\d+(?:\.\d+)?)?\s*$/);
+  if (!match) return {};
+  const range: NumericRange = {};
+  if (match[1]) range.min = Number(match[1]);
+  if (match[2]) range.max = Number(match[2]);
+  return range;
+}
+
+// Writes `filters` into `params`, leaving any unrelated parameters in place
+export function setFilterParams(params: URLSearchParams, filters: FilterState): URLSearchParams {
+  const next = new URLSearchParams(params);
+  for (const key of FILTER_KEYS) {
+    next.delete(key);
+    for (const value of filters[key] ?? []) next.append(key, value);
+  }
+  for (const key of RANGE_KEYS) {
+    next.delete(key);
+    if (isRangeActive(filters[key])) next.set(key, formatRange(filters[key]));
+  }
+  return next;
+}
+
+export function filtersFromParams(params: URLSearchParams): FilterState {
+  const filters = { ...EMPTY_FILTERS };
+  for (const key of FILTER_KEYS) {
+    const values = params.getAll(key)
+      .flatMap((v) => v.split(','))
+      .map((v) => v.trim())
+      .filter(Boolean);
+    filters[key] = Array.from(new Set(values));
+  }
+  filters.month = filters.month.filter((m) => /^(?:[1-9]|1[0-2])$/.test(m));
+  for (const key of RANGE_KEYS) filters[key] = parseRange(params.get(key));
+  return filters;
+}
+
+export function hasFilterParams(params: URLSearchParams): boolean {
+  return [...FILTER_KEYS, ...RANGE_KEYS].some((key) => params.has(key));
+}
@@ -1,6 +1,10 @@
 import { build as esbuild } from "esbuild";
 import { build as viteBuild } from "vite";
 import { rm, readFile, cp } from "fs/promises";
+import { writeSitemap } from "./sitemap";
+import { prerender } from "./prerender";
+import { writeRedirects } from "./redirects";
+import { writeSearchIndex } from "./search-index";
 
 // server deps to bundle to reduce openat(2) syscalls
 // which helps cold start times
@@ -44,6 +48,22 @@ async function buildAll() {
   await cp("client/public/data", "dist/public/data", { recursive: true, force: true });
   console.log("static data files copied ✓");
 
+  console.log("building search index...");
+  const docCount = await writeSearchIndex("dist/public");
+  console.log(`search-index.json written (${docCount} documents) ✓`);
+
+  console.log("generating sitemap...");
+  const urlCount = await writeSitemap("dist/public");
+  console.log(`sitemap.xml written (${urlCount} URLs) ✓`);
+
+  console.log("writing trek redirects...");
+  const redirectCount = await writeRedirects("dist/public");
+  console.log(`_redirects written (${redirectCount} legacy slugs) ✓`);
+
+  console.log("prerendering pages...");
+  const pageCount = await prerender("dist/public");
+  console.log(`${pageCount} pages prerendered ✓`);
+
   console.log("building server...");
   const pkg = JSON.parse(await readFile("package.json", "utf-8"));
   const allDeps = [
@@ -0,0 +1,453 @@
+// script/check-data.ts
+// Run from repo root: npx tsx script/check-data.ts  (or: npm run check:data)
+//
+// Cross-checks the hand-edited content files against each other:
+//   client/src/data/treks.json          — the catalog (source of truth for ids)
+//   client/src/data/editorial.json      — whySpecial / highlights, keyed by trek id
+//   client/src/data/articles-meta.json  — relatedTreks must be catalog ids
+//   client/public/data/itineraries/     — one {trekId}.json per trek
+//   shared/trekAliases.ts               — legacy slug → trek id
+//
+// Prints a report and exits 1 when any error is found. Warnings (editorial
+// still keyed by a legacy slug, unparseable itinerary cells, …) are reported
+// but do not fail the run.
+//
+// Options:
+//   --remote-images   also HEAD-request every trek image on the CDN
+//   --errors-only     hide warnings
+
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { insertTrekSchema } from '@shared/schema';
+import { normalizeItineraryDay, type ItineraryIssue } from '@shared/itinerary';
+import { TREK_ALIASES, getTrekAliases } from '@shared/trekAliases';
+import { getTrekImageUrl } from '../client/src/lib/images';
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const ROOT = path.resolve(__dirname, '..');
+
+const TREKS_FILE     = path.join(ROOT, 'client/src/data/treks.json');
+const EDITORIAL_FILE = path.join(ROOT, 'client/src/data/editorial.json');
+const ARTICLES_FILE  = path.join(ROOT, 'client/src/data/articles-meta.json');
+const ITINERARY_DIR  = path.join(ROOT, 'client/public/data/itineraries');
+
+const args = new Set(process.argv.slice(2));
+
+// ── Report ──────────────────────────────────────────────────────────────────
+
+type Severity = 'error' | 'warning';
+
+interface Finding {
+  severity: Severity;
+  check: string;
+  subject: string;
+  message: string;
+}
+
+const findings: Finding[] = [];
+
+function report(severity: Severity, check: string, subject: string, message: string) {
+  findings.push({ severity, check, subject, message });
+}
+
+// ── Helpers ─────────────────────────────────────────────────────────────────
+
+// JSON.parse with the failure turned into an error finding (with line:column)
+// instead of a crash, since broken hand edits are the main thing we catch.
+function readJson<T>(file: string, check: string): T | null {
+  const rel = path.relative(ROOT, file);
+  if (!fs.existsSync(file)) {
+    report('error', check, rel, 'file not found');
+    return null;
+  }
+  const text = fs.readFileSync(file, 'utf-8');
+  try {
+    return JSON.parse(text) as T;
+  } catch (err) {
+    const message = (err as Error).message;
+    const pos = Number(message.match(/position (\d+)/)?.[1]);
+    if (Number.isFinite(pos)) {
+      const before = text.slice(0, pos).split('\n');
+      report('error', check, rel, `invalid JSON at line ${before.length}, column ${before[before.length - 1].length + 1}: ${message}`);
+    } else {
+      report('error', check, rel, `invalid JSON: ${message}`);
+    }
+    return null;
+  }
+}
+
+function levenshtein(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    let prev = row[0];
+    row[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const tmp = row[j];
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, prev + (a[i - 1] === b[j - 1] ? 0 : 1));
+      prev = tmp;
+    }
+  }
+  return row[b.length];
+}
+
+// Closest candidate for a broken reference: "yading_kora" → "yading-kora",
+// "kailash" → "mount-kailash", "toublak" → "toubkal".
+function suggest(value: string, candidates: Iterable<string>): string | null {
+  const norm = (s: string) => s.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const target = norm(value);
+  let best: string | null = null;
+  let bestScore = Infinity;
+  for (const c of Array.from(candidates)) {
+    const n = norm(c);
+    const score = n === target ? 0
+      : n.includes(target) || target.includes(n) ? 1
+      : levenshtein(n, target);
+    if (score < bestScore) { best = c; bestScore = score; }
+  }
+  return bestScore <= 2 ? best : null;
+}
+
+const didYouMean = (s: string | null) => (s ? ` (did you mean "${s}"?)` : '');
+
+// ── Seasons ─────────────────────────────────────────────────────────────────
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+function monthNumber(word: string): number | null {
+  const i = MONTHS.indexOf(word.trim().slice(0, 3));
+  return i === -1 ? null : i + 1;
+}
+
+// "June-September", "Apr–Nov", "Mar–May, Sep–Nov", "October-April (SoBo thru)",
+// "July-early September", "Year-round" → month numbers. null when any part of
+// the string is not understood.
+function parseSeason(season: string): number[] | null {
+  const s = season.toLowerCase().replace(/\(.*?\)/g, '').replace(/\b(early|mid|late)\b\s*/g, '').trim();
+  if (/^(year[\s-]round|all year)$/.test(s)) return MONTHS.map((_, i) => i + 1);
+
+  const months = new Set<number>();
+  for (const segment of s.split(/,|&|\band\b/).map((x) => x.trim()).filter(Boolean)) {
+    const parts = segment.split(/\s*[-–—]\s*|\s+to\s+/);
+    const [start, end] = parts.map(monthNumber);
+    if (parts.length === 1 && start) {
+      months.add(start);
+    } else if (parts.length === 2 && start && end) {
+      for (let m = start; ; m = (m % 12) + 1) {
+        months.add(m);
+        if (m === end) break;
+      }
+    } else {
+      return null;
+    }
+  }
+  return Array.from(months).sort((a, b) => a - b);
+}
+
+const monthList = (ms: number[]) => ms.map((m) => MONTHS[m - 1]).join(', ');
+
+// ── Country bounds ──────────────────────────────────────────────────────────
+// Approximate bounding boxes [south, west, north, east], several where a
+// country has outlying territory. Coarse by design: they catch swapped
+// lat/lng, flipped signs and copy-pasted coordinates, not small offsets.
+
+type Box = [number, number, number, number];
+
+const COUNTRY_BOUNDS: Record<string, Box[]> = {
+  'albania':          [[39.6, 19.3, 42.7, 21.1]],
+  'argentina':        [[-55.1, -73.6, -21.7, -53.6]],
+  'australia':        [[-43.7, 112.9, -10.0, 153.7]],
+  'austria':          [[46.3, 9.5, 49.1, 17.2]],
+  'bhutan':           [[26.7, 88.7, 28.4, 92.2]],
+  'bolivia':          [[-22.9, -69.7, -9.6, -57.4]],
+  'bosnia':           [[42.5, 15.7, 45.3, 19.7]],
+  'brazil':           [[-33.8, -74.0, 5.3, -34.8]],
+  'canada':           [[41.6, -141.1, 83.2, -52.6]],
+  'chile':            [[-56.0, -75.7, -17.5, -66.4]],
+  'china':            [[18.1, 73.5, 53.6, 134.8]],
+  'colombia':         [[-4.2, -79.0, 12.5, -66.8]],
+  'croatia':          [[42.4, 13.5, 46.6, 19.5]],
+  'ecuador':          [[-5.0, -81.1, 1.5, -75.2], [-1.5, -92.0, 1.7, -89.0]],
+  'england':          [[49.9, -6.4, 55.8, 1.8]],
+  'ethiopia':         [[3.4, 33.0, 14.9, 48.0]],
+  'france':           [[41.3, -5.2, 51.1, 9.6]],
+  'georgia':          [[41.0, 40.0, 43.6, 46.7]],
+  'germany':          [[47.2, 5.9, 55.1, 15.0]],
+  'greenland':        [[59.7, -73.3, 83.7, -11.3]],
+  'guatemala':        [[13.7, -92.3, 17.8, -88.2]],
+  'guyana':           [[1.2, -61.4, 8.6, -56.5]],
+  'hong kong':        [[22.15, 113.8, 22.57, 114.45]],
+  'iceland':          [[63.3, -24.6, 66.6, -13.4]],
+  'india':            [[6.7, 68.1, 35.7, 97.4]],
+  'indonesia':        [[-11.0, 95.0, 6.1, 141.1]],
+  'ireland':          [[51.4, -10.5, 55.4, -6.0]],
+  'israel':           [[29.4, 34.2, 33.4, 35.9]],
+  'italy':            [[35.4, 6.6, 47.1, 18.6]],
+  'japan':            [[24.0, 122.9, 45.6, 145.9]],
+  'jordan':           [[29.2, 34.9, 33.4, 39.3]],
+  'kenya':            [[-4.7, 33.9, 5.0, 41.9]],
+  'kosovo':           [[41.8, 20.0, 43.3, 21.8]],
+  'kyrgyzstan':       [[39.2, 69.2, 43.3, 80.3]],
+  'malaysia':         [[0.8, 99.6, 7.4, 119.3]],
+  'mexico':           [[14.5, -118.4, 32.8, -86.7]],
+  'monaco':           [[43.72, 7.4, 43.76, 7.44]],
+  'montenegro':       [[41.8, 18.4, 43.6, 20.4]],
+  'morocco':          [[27.6, -13.2, 35.9, -1.0]],
+  'namibia':          [[-29.0, 11.7, -16.9, 25.3]],
+  'nepal':            [[26.3, 80.0, 30.5, 88.3]],
+  'new zealand':      [[-47.4, 166.3, -34.3, 178.7]],
+  'norway':           [[57.9, 4.6, 71.2, 31.1], [76.4, 10.5, 80.8, 33.6]],
+  'pakistan':         [[23.6, 60.9, 37.1, 77.8]],
+  'papua new guinea': [[-11.7, 140.8, -0.8, 156.0]],
+  'peru':             [[-18.4, -81.4, 0.0, -68.6]],
+  'portugal':         [[36.9, -9.5, 42.2, -6.2], [32.4, -17.3, 33.2, -16.2], [36.9, -31.3, 39.8, -24.8]],
+  'russia':           [[41.2, 19.6, 81.9, 180.0], [64.0, -180.0, 71.6, -169.0]],
+  'scotland':         [[54.6, -8.7, 60.9, -0.7]],
+  'slovenia':         [[45.4, 13.4, 46.9, 16.6]],
+  'south africa':     [[-34.9, 16.4, -22.1, 32.9]],
+  'spain':            [[35.9, -9.4, 43.8, 4.4], [27.6, -18.2, 29.5, -13.4]],
+  'sweden':           [[55.3, 11.1, 69.1, 24.2]],
+  'switzerland':      [[45.8, 5.9, 47.8, 10.5]],
+  'tajikistan':       [[36.6, 67.3, 41.1, 75.2]],
+  'tanzania':         [[-11.8, 29.3, -0.9, 40.5]],
+  'turkey':           [[35.8, 25.6, 42.1, 44.8]],
+  'uganda':           [[-1.5, 29.5, 4.2, 35.0]],
+  'united kingdom':   [[49.8, -8.7, 60.9, 1.8]],
+  'usa':              [[24.4, -125.0, 49.5, -66.9], [51.0, -180.0, 71.5, -129.0], [18.9, -160.3, 22.3, -154.8]],
+  'venezuela':        [[0.6, -73.4, 12.2, -59.8]],
+};
+
+const COUNTRY_ALIASES: Record<string, string> = {
+  'uk': 'united kingdom',
+  'united states': 'usa',
+  'bosnia and herzegovina': 'bosnia',
+};
+
+// Lenience for trailheads on a coast or border
+const BOUNDS_MARGIN = 0.25;
+
+// "France, Italy, Switzerland", "Albania/Kosovo/Montenegro", "China (Tibet)"
+function parseCountries(country: string): string[] {
+  return country
+    .replace(/\(.*?\)/g, '')
+    .split(/[,/&]/)
+    .map((c) => c.trim().toLowerCase())
+    .filter(Boolean)
+    .map((c) => COUNTRY_ALIASES[c] ?? c);
+}
+
+function inBox(lat: number, lng: number, [s, w, n, e]: Box): boolean {
+  return lat >= s - BOUNDS_MARGIN && lat <= n + BOUNDS_MARGIN
+    && lng >= w - BOUNDS_MARGIN && lng <= e + BOUNDS_MARGIN;
+}
+
+// ── Checks ──────────────────────────────────────────────────────────────────
+
+interface RawTrek {
+  id: string;
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  imageFilename: string;
+  season: string;
+  seasonMonths: number[];
+  [key: string]: unknown;
+}
+
+async function checkCatalog(treks: RawTrek[]) {
+  // server/catalog imports treks.json itself, so it can only be loaded once
+  // the file is known to parse
+  const { toInsertTrek } = await import('../server/catalog');
+  const seenIds = new Set<string>();
+  const images = new Map<string, string>();
+
+  for (const trek of treks) {
+    const id = String(trek.id ?? '');
+    if (seenIds.has(id)) report('error', 'treks', id, 'duplicate id');
+    seenIds.add(id);
+
+    // Everything seedDatabase() will insert must pass the insert schema
+    const parsed = insertTrekSchema.safeParse(toInsertTrek(trek as unknown as Parameters<typeof toInsertTrek>[0]));
+    if (!parsed.success) {
+      for (const issue of parsed.error.errors) {
+        report('error', 'treks', id, `${issue.path.join('.')}: ${issue.message}`);
+      }
+    }
+
+    // Coordinates inside the stated country
+    const countries = parseCountries(String(trek.country ?? ''));
+    const known = countries.filter((c) => COUNTRY_BOUNDS[c]);
+    for (const c of countries.filter((c) => !COUNTRY_BOUNDS[c])) {
+      report('warning', 'coordinates', id, `no bounds for country "${c}" — add it to COUNTRY_BOUNDS`);
+    }
+    const { latitude: lat, longitude: lng } = trek;
+    if (known.length > 0 && typeof lat === 'number' && typeof lng === 'number'
+        && !known.some((c) => COUNTRY_BOUNDS[c].some((box) => inBox(lat, lng, box)))) {
+      const swapped = known.some((c) => COUNTRY_BOUNDS[c].some((box) => inBox(lng, lat, box)));
+      report('error', 'coordinates', id,
+        `${lat}, ${lng} is outside ${trek.country}${swapped ? ' (latitude and longitude look swapped)' : ''}`);
+    }
+
+    // seasonMonths agrees with the season label
+    const fromLabel = parseSeason(String(trek.season ?? ''));
+    if (!fromLabel) {
+      report('warning', 'season', id, `could not parse season "${trek.season}"`);
+    } else if (Array.isArray(trek.seasonMonths)) {
+      const stated = new Set(trek.seasonMonths);
+      const missing = fromLabel.filter((m) => !stated.has(m));
+      const extra = Array.from(stated).filter((m) => !fromLabel.includes(m)).sort((a, b) => a - b);
+      if (missing.length > 0 || extra.length > 0) {
+        report('error', 'season', id, `seasonMonths disagrees with "${trek.season}"`
+          + (missing.length ? `; missing ${monthList(missing)}` : '')
+          + (extra.length ? `; extra ${monthList(extra)}` : ''));
+      }
+    }
+
+    // Image filename: CDN-safe and not shared with another trek
+    const image = String(trek.imageFilename ?? '');
+    if (!/^[a-z0-9][a-z0-9_-]*$/.test(image)) {
+      report('error', 'images', id, `imageFilename "${image}" is empty or not a plain lowercase name`);
+    } else if (images.has(image)) {
+      report('warning', 'images', id, `imageFilename "${image}" is also used by ${images.get(image)}`);
+    } else {
+      images.set(image, id);
+    }
+  }
+}
+
+// Every alias must point at a catalog id, and must not itself be one (the
+// trek would become unreachable) — resolveTrekId() follows a single hop.
+function checkAliases(treks: RawTrek[]) {
+  const ids = new Set(treks.map((t) => t.id));
+  for (const [alias, target] of Object.entries(TREK_ALIASES)) {
+    if (ids.has(alias)) {
+      report('error', 'aliases', alias, `is a trek id itself — remove the alias to "${target}"`);
+    } else if (TREK_ALIASES[target]) {
+      report('error', 'aliases', alias, `points at "${target}", itself an alias of "${TREK_ALIASES[target]}" — point it there directly`);
+    } else if (!ids.has(target)) {
+      report('error', 'aliases', alias, `points at "${target}", which is not a trek id${didYouMean(suggest(target, ids))}`);
+    }
+  }
+}
+
+// Mirrors getEditorialContent() in client/src/lib/treks.ts: the trek id
+// first, then any legacy slug aliased to it.
+function checkEditorial(treks: RawTrek[], editorial: Record<string, { name?: string }>) {
+  const reached = new Set<string>();
+
+  for (const trek of treks) {
+    const key = [trek.id, ...getTrekAliases(trek.id)].find((k) => editorial[k]);
+    if (!key) {
+      report('warning', 'editorial', trek.id, 'no editorial entry');
+      continue;
+    }
+    reached.add(key);
+    if (key !== trek.id) {
+      report('warning', 'editorial', trek.id, `entry is keyed by the legacy slug "${key}" — rename the key to "${trek.id}"`);
+    }
+  }
+
+  const ids = treks.map((t) => t.id);
+  for (const key of Object.keys(editorial).filter((k) => !reached.has(k))) {
+    report('error', 'editorial', key, `entry matches no trek and is never shown${didYouMean(suggest(key, ids))}`);
+  }
+}
+
+function checkItineraries(treks: RawTrek[]) {
+  if (!fs.existsSync(ITINERARY_DIR)) {
+    report('error', 'itineraries', path.relative(ROOT, ITINERARY_DIR), 'directory not found');
+    return;
+  }
+  const files = new Set(
+    fs.readdirSync(ITINERARY_DIR).filter((f) => f.endsWith('.json')).map((f) => f.slice(0, -'.json'.length)),
+  );
+  const ids = new Set(treks.map((t) => t.id));
+  const orphans = Array.from(files).filter((f) => !ids.has(f));
+
+  for (const trek of treks) {
+    if (!files.has(trek.id)) {
+      report('error', 'itineraries', trek.id, `no ${trek.id}.json${didYouMean(suggest(trek.id, orphans))}`);
+      continue;
+    }
+    const data = readJson<{ itinerary?: unknown }>(path.join(ITINERARY_DIR, `${trek.id}.json`), 'itineraries');
+    if (!data) continue;
+    if (!Array.isArray(data.itinerary) || data.itinerary.length === 0) {
+      report('error', 'itineraries', trek.id, 'file has no itinerary array');
+      continue;
+    }
+    // Same normalisation the server import uses; unparseable cells become NULLs there
+    const issues: ItineraryIssue[] = [];
+    for (const raw of data.itinerary) normalizeItineraryDay(raw, trek.id, issues);
+    for (const issue of issues) {
+      report('warning', 'itineraries', trek.id,
+        `day ${String(issue.day)}: ${issue.field} = ${JSON.stringify(issue.value)} (${issue.reason})`);
+    }
+  }
+
+  for (const file of orphans) {
+    report('warning', 'itineraries', `${file}.json`, `matches no trek id${didYouMean(suggest(file, ids))}`);
+  }
+}
+
+function checkArticles(treks: RawTrek[], articles: { slug: string; relatedTreks?: string[] }[]) {
+  const ids = new Set(treks.map((t) => t.id));
+  const slugs = new Set<string>();
+  for (const article of articles) {
+    if (slugs.has(article.slug)) report('error', 'articles', article.slug, 'duplicate article slug');
+    slugs.add(article.slug);
+    for (const trekId of article.relatedTreks ?? []) {
+      if (!ids.has(trekId)) {
+        report('error', 'articles', article.slug, `relatedTreks "${trekId}" is not a trek id${didYouMean(suggest(trekId, ids))}`);
+      }
+    }
+  }
+}
+
+async function checkRemoteImages(treks: RawTrek[]) {
+  for (const trek of treks) {
+    const url = getTrekImageUrl(trek.imageFilename);
+    try {
+      const res = await fetch(url, { method: 'HEAD' });
+      if (!res.ok) report('error', 'images', trek.id, `${url} → ${res.status}`);
+    } catch (err) {
+      report('error', 'images', trek.id, `${url} → ${(err as Error).message}`);
+    }
+  }
+}
+
+// ── Main ────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const treks = readJson<RawTrek[]>(TREKS_FILE, 'treks');
+  const editorial = readJson<Record<string, { name?: string }>>(EDITORIAL_FILE, 'editorial');
+  const articles = readJson<{ slug: string; relatedTreks?: string[] }[]>(ARTICLES_FILE, 'articles');
+
+  if (treks) {
+    await checkCatalog(treks);
+    checkAliases(treks);
+    if (editorial) checkEditorial(treks, editorial);
+    checkItineraries(treks);
+    if (articles) checkArticles(treks, articles);
+    if (args.has('--remote-images')) await checkRemoteImages(treks);
+  }
+
+  const shown = args.has('--errors-only') ? findings.filter((f) => f.severity === 'error') : findings;
+  const checks = Array.from(new Set(shown.map((f) => f.check)));
+  for (const check of checks) {
+    console.log(`\n${check}`);
+    for (const f of shown.filter((x) => x.check === check)) {
+      console.log(`  ${f.severity === 'error' ? '✗' : '⚠'} ${f.subject}: ${f.message}`);
+    }
+  }
+
+  const errors = findings.filter((f) => f.severity === 'error').length;
+  const warnings = findings.length - errors;
+  console.log(`\n${errors === 0 ? '✅' : '❌'} ${treks?.length ?? 0} treks checked — ${errors} error(s), ${warnings} warning(s)`);
+  process.exit(errors > 0 ? 1 : 0);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
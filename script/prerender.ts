@@ -0,0 +1,101 @@
+import { existsSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import { createServer } from "vite";
+import type { ItineraryFile } from "@shared/itinerary";
+import { PRERENDER_DATA_ID, serializePrerenderData, type PrerenderData } from "../client/src/lib/prerender";
+import type { RenderResult } from "../client/src/entry-server";
+import { collectSitemapUrls } from "./sitemap";
+
+// Prerenders every trek, SEO hub and article page to static HTML so crawlers
+// get the full content and meta tags without running JavaScript. The pages
+// are rendered with the real app (client/src/entry-server.tsx) through Vite's
+// SSR loader, then hydrated on the client (client/src/main.tsx).
+//
+// Each route is written next to index.html as <path>.html (e.g.
+// /trek/everest-base-camp → trek/everest-base-camp.html), which Cloudflare
+// Pages and express.static({ extensions: ["html"] }) serve at the bare path.
+
+const PRERENDER_PREFIXES = ["/trek/", "/treks/", "/articles/"];
+
+const ITINERARY_DIR = "client/public/data/itineraries";
+
+// Data the page would otherwise fetch after mount — embedded so the server
+// render and the first client render see the same itinerary.
+async function pageData(urlPath: string): Promise<PrerenderData> {
+  const data: PrerenderData = { itineraries: {} };
+  const trekId = urlPath.match(/^\/trek\/([^/]+)$/)?.[1];
+  if (trekId) {
+    const file = path.join(ITINERARY_DIR, `${trekId}.json`);
+    let itinerary: ItineraryFile | null = null;
+    if (existsSync(file)) {
+      const parsed = JSON.parse(await readFile(file, "utf-8"));
+      if (parsed && Array.isArray(parsed.itinerary)) itinerary = parsed;
+    }
+    data.itineraries[trekId] = itinerary;
+  }
+  return data;
+}
+
+// The template's default <title> and meta tags, minus those the page sets
+// through <Helmet> (which would otherwise appear twice).
+function mergeHead(template: string, head: string): string {
+  const overridden = new Set(
+    Array.from(head.matchAll(/<meta[^>]*\s(?:name|property)="([^"]+)"/g), (m) => m[1]),
+  );
+  let html = template;
+  if (head.includes("<title")) html = html.replace(/<title>[\s\S]*?<\/title>\s*/, "");
+  html = html.replace(/<meta\s+(?:name|property)="([^"]+)"[^>]*>\s*/g, (tag, key) =>
+    overridden.has(key) ? "" : tag,
+  );
+  // Replacer functions throughout: page content may contain "$" sequences
+  return html.replace("</head>", () => `  ${head}\n  </head>`);
+}
+
+function pageHtml(template: string, page: RenderResult, data: PrerenderData): string {
+  return mergeHead(template, page.head).replace(
+    '<div id="root"></div>',
+    () => `<div id="root">${page.html}</div>\n    <script type="application/json" id="${PRERENDER_DATA_ID}">${serializePrerenderData(data)}</script>`,
+  );
+}
+
+// Renders into outDir, using the built outDir/index.html as the template.
+// Returns the number of pages written.
+export async function prerender(outDir: string): Promise<number> {
+  const template = await readFile(path.join(outDir, "index.html"), "utf-8");
+  if (!template.includes('<div id="root"></div>')) {
+    throw new Error(`${outDir}/index.html has no empty <div id="root"></div> to render into`);
+  }
+
+  const paths = collectSitemapUrls()
+    .map((u) => u.path)
+    .filter((p) => PRERENDER_PREFIXES.some((prefix) => p.startsWith(prefix)));
+
+  const vite = await createServer({
+    server: { middlewareMode: true, hmr: false },
+    appType: "custom",
+    logLevel: "error",
+  });
+
+  try {
+    const { render } = (await vite.ssrLoadModule("/src/entry-server.tsx")) as typeof import("../client/src/entry-server");
+
+    for (const urlPath of paths) {
+      const data = await pageData(urlPath);
+      let page: RenderResult;
+      try {
+        page = await render(urlPath, data);
+      } catch (err) {
+        throw new Error(`prerendering ${urlPath} failed: ${err instanceof Error ? err.stack : err}`);
+      }
+
+      const file = path.join(outDir, `${urlPath}.html`);
+      await mkdir(path.dirname(file), { recursive: true });
+      await writeFile(file, pageHtml(template, page, data));
+    }
+  } finally {
+    await vite.close();
+  }
+
+  return paths.length;
+}
@@ -0,0 +1,18 @@
+import { appendFile } from "fs/promises";
+import path from "path";
+import { TREK_ALIASES } from "@shared/trekAliases";
+
+// Appends a permanent redirect for every legacy trek slug
+// (shared/trekAliases.ts) to the _redirects file copied from client/public,
+// so old /trek/<slug> links reach the canonical page on Cloudflare Pages
+// before any JavaScript runs. Returns the number of rules written.
+export async function writeRedirects(outDir: string): Promise<number> {
+  const rules = Object.keys(TREK_ALIASES)
+    .sort()
+    .map((alias) => `/trek/${alias} /trek/${TREK_ALIASES[alias]} 301`);
+  await appendFile(
+    path.join(outDir, "_redirects"),
+    ["", "# Legacy trek slugs — generated by script/build.ts from shared/trekAliases.ts", ...rules, ""].join("\n"),
+  );
+  return rules.length;
+}
@@ -0,0 +1,34 @@
+import { existsSync, readdirSync } from "fs";
+import { mkdir, readFile, writeFile } from "fs/promises";
+import path from "path";
+import type { ItineraryFile } from "@shared/itinerary";
+import { SEARCH_INDEX_PATH, buildSearchDocs, buildSearchIndex } from "../client/src/lib/search";
+
+// Writes the search index (client/src/lib/search.ts) to outDir/data/, with the
+// overnight stops and waypoints of every itinerary file — data the browser
+// would otherwise have to fetch one trek at a time. Returns the number of
+// documents indexed.
+
+const ITINERARY_DIR = "client/public/data/itineraries";
+
+async function readItineraries(): Promise<Record<string, ItineraryFile | null>> {
+  const files: Record<string, ItineraryFile | null> = {};
+  if (!existsSync(ITINERARY_DIR)) return files;
+  for (const name of readdirSync(ITINERARY_DIR).filter((f) => f.endsWith(".json"))) {
+    try {
+      const parsed = JSON.parse(await readFile(path.join(ITINERARY_DIR, name), "utf-8"));
+      files[name.slice(0, -".json".length)] = parsed && Array.isArray(parsed.itinerary) ? parsed : null;
+    } catch {
+      // unreadable file — reported by script/check-data.ts
+    }
+  }
+  return files;
+}
+
+export async function writeSearchIndex(outDir: string): Promise<number> {
+  const index = buildSearchIndex(buildSearchDocs(await readItineraries()));
+  const file = path.join(outDir, SEARCH_INDEX_PATH);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, JSON.stringify(index));
+  return index.docs.length;
+}
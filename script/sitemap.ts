@@ -0,0 +1,206 @@
+import { execFileSync } from "child_process";
+import { existsSync, statSync } from "fs";
+import { writeFile } from "fs/promises";
+import path from "path";
+import articlesMeta from "../client/src/data/articles-meta.json";
+import { getAllTreks } from "../client/src/lib/treks";
+import {
+  DURATION_BRACKETS,
+  MONTHS,
+  TIER_INFO,
+  getAllContinents,
+  getAllCountries,
+  getAllRegions,
+  getCombinationPages,
+  getContinentPageData,
+  getCountryPageData,
+  getDurationPageData,
+  getMonthPageData,
+  getRegionPageData,
+  getTierPageData,
+} from "../client/src/lib/seo-pages";
+
+// Generates sitemap.xml at build time from the same sources the pages render
+// from: treks.json (trek pages), seo-pages.ts (region, country, continent,
+// duration, tier and month hubs, plus continent × duration / tier pages) and
+// articles-meta.json (articles). Adding a trek or an article adds its URL on
+// the next build.
+//
+// lastmod is the date the page's source data last changed: the last git
+// commit touching the source files (file mtime outside a git checkout), and
+// for articles their `updatedAt` / `publishedAt` in articles-meta.json.
+
+const SITE_URL = (process.env.SITE_URL ?? "https://www.trekmind.app").replace(/\/$/, "");
+
+// Sitemap protocol limit per file; above it we write sitemap-N.xml files and
+// make sitemap.xml an index of them.
+const MAX_URLS_PER_SITEMAP = 50_000;
+
+const TREKS_JSON = "client/src/data/treks.json";
+const EDITORIAL_JSON = "client/src/data/editorial.json";
+const ARTICLES_META_JSON = "client/src/data/articles-meta.json";
+const ARTICLE_CONTENT = "client/src/data/articleContent.ts";
+const ITINERARY_DIR = "client/public/data/itineraries";
+
+type ChangeFreq = "daily" | "weekly" | "monthly" | "yearly";
+
+interface SitemapUrl {
+  path: string;
+  lastmod: string;
+  changefreq: ChangeFreq;
+  priority: number;
+}
+
+// ── lastmod ─────────────────────────────────────────────────────────────────
+
+const lastModCache = new Map<string, string | null>();
+
+// YYYY-MM-DD of the last commit touching `file`, or null if it doesn't exist
+function fileLastMod(file: string): string | null {
+  if (lastModCache.has(file)) return lastModCache.get(file)!;
+  let date: string | null = null;
+  if (existsSync(file)) {
+    try {
+      date = execFileSync("git", ["log", "-1", "--format=%cs", "--", file], { encoding: "utf-8" }).trim() || null;
+    } catch {
+      // not a git checkout
+    }
+    date ??= statSync(file).mtime.toISOString().slice(0, 10);
+  }
+  lastModCache.set(file, date);
+  return date;
+}
+
+// Latest of the given dates / files
+function latest(...sources: (string | null | undefined)[]): string {
+  const dates = sources
+    .map((s) => (s && /^\d{4}-\d{2}-\d{2}/.test(s) ? s.slice(0, 10) : s ? fileLastMod(s) : null))
+    .filter((d): d is string => !!d)
+    .sort();
+  return dates[dates.length - 1] ?? new Date().toISOString().slice(0, 10);
+}
+
+// ── URL collection ──────────────────────────────────────────────────────────
+
+// Mirrors the tier-based priorities of the previous hand-written sitemap:
+// thru-hikes and trekking peaks rank with the classics (high-intent searches).
+const TREK_PRIORITY: Record<number, number> = { 1: 0.9, 2: 0.8, 3: 0.7, 4: 0.8, 5: 0.8 };
+
+interface ArticleMeta {
+  slug: string;
+  publishedAt?: string;
+  updatedAt?: string;
+}
+
+export function collectSitemapUrls(): SitemapUrl[] {
+  const treks = getAllTreks();
+  const articles = articlesMeta as ArticleMeta[];
+  const catalogDate = latest(TREKS_JSON);
+  const articlesDate = latest(ARTICLES_META_JSON, ...articles.map((a) => a.updatedAt ?? a.publishedAt));
+
+  const urls: SitemapUrl[] = [
+    { path: "/", lastmod: catalogDate, changefreq: "weekly", priority: 1.0 },
+    { path: "/top-100", lastmod: catalogDate, changefreq: "weekly", priority: 0.9 },
+    { path: "/trek-finder", lastmod: catalogDate, changefreq: "monthly", priority: 0.9 },
+    { path: "/about", lastmod: latest("client/src/pages/About.tsx"), changefreq: "monthly", priority: 0.7 },
+    { path: "/articles", lastmod: articlesDate, changefreq: "weekly", priority: 0.8 },
+    { path: "/privacy", lastmod: latest("client/src/pages/Privacy.tsx"), changefreq: "yearly", priority: 0.3 },
+    { path: "/terms", lastmod: latest("client/src/pages/Terms.tsx"), changefreq: "yearly", priority: 0.3 },
+  ];
+
+  for (const trek of treks) {
+    urls.push({
+      path: `/trek/${trek.id}`,
+      lastmod: latest(TREKS_JSON, EDITORIAL_JSON, path.join(ITINERARY_DIR, `${trek.id}.json`)),
+      changefreq: "monthly",
+      priority: TREK_PRIORITY[trek.tier] ?? 0.7,
+    });
+  }
+
+  // Hub pages — only those that render with at least one trek
+  const hubs: [string, string[], (slug: string) => { treks: unknown[] } | null, number][] = [
+    ["continent", getAllContinents().map((c) => c.slug), getContinentPageData, 0.7],
+    ["region", getAllRegions().map((r) => r.slug), getRegionPageData, 0.7],
+    ["country", getAllCountries().map((c) => c.slug), getCountryPageData, 0.7],
+    ["tier", TIER_INFO.map((t) => t.slug), getTierPageData, 0.7],
+    ["duration", DURATION_BRACKETS.map((b) => b.slug), getDurationPageData, 0.6],
+    ["month", MONTHS.map((m) => m.slug), getMonthPageData, 0.6],
+  ];
+  for (const [kind, slugs, getPage, priority] of hubs) {
+    for (const slug of slugs) {
+      if (!getPage(slug)?.treks.length) continue;
+      urls.push({ path: `/treks/${kind}/${slug}`, lastmod: catalogDate, changefreq: "monthly", priority });
+    }
+  }
+
+  // Continent × duration / tier pages — only the combinations that exist
+  for (const page of getCombinationPages()) {
+    urls.push({ path: page.href, lastmod: catalogDate, changefreq: "monthly", priority: 0.6 });
+  }
+
+  for (const article of articles) {
+    urls.push({
+      path: `/articles/${article.slug}`,
+      lastmod: latest(article.updatedAt ?? article.publishedAt ?? ARTICLE_CONTENT),
+      changefreq: "monthly",
+      priority: 0.7,
+    });
+  }
+
+  // A duplicated id in treks.json would list its URL twice
+  const seen = new Set<string>();
+  return urls.filter((u) => !seen.has(u.path) && seen.add(u.path));
+}
+
+// ── XML ─────────────────────────────────────────────────────────────────────
+
+function escapeXml(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function urlsetXml(urls: SitemapUrl[]): string {
+  const entries = urls.map(
+    (u) =>
+      `  <url><loc>${escapeXml(SITE_URL + u.path)}</loc><lastmod>${u.lastmod}</lastmod>` +
+      `<changefreq>${u.changefreq}</changefreq><priority>${u.priority.toFixed(1)}</priority></url>`,
+  );
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!-- Generated by script/build.ts — do not edit by hand -->`,
+    `<urlset xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...entries,
+    `</urlset>`,
+    "",
+  ].join("\n");
+}
+
+function sitemapIndexXml(files: { name: string; lastmod: string }[]): string {
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<!-- Generated by script/build.ts — do not edit by hand -->`,
+    `<sitemapindex xmlns="http://www.sitemaps.org/schemas/sitemap/0.9">`,
+    ...files.map((f) => `  <sitemap><loc>${escapeXml(`${SITE_URL}/${f.name}`)}</loc><lastmod>${f.lastmod}</lastmod></sitemap>`),
+    `</sitemapindex>`,
+    "",
+  ].join("\n");
+}
+
+// Writes sitemap.xml (plus sitemap-N.xml when over the per-file limit) into
+// outDir and returns the number of URLs.
+export async function writeSitemap(outDir: string): Promise<number> {
+  const urls = collectSitemapUrls();
+  if (urls.length <= MAX_URLS_PER_SITEMAP) {
+    await writeFile(path.join(outDir, "sitemap.xml"), urlsetXml(urls));
+    return urls.length;
+  }
+
+  const files: { name: string; lastmod: string }[] = [];
+  for (let i = 0; i < urls.length; i += MAX_URLS_PER_SITEMAP) {
+    const chunk = urls.slice(i, i + MAX_URLS_PER_SITEMAP);
+    const name = `sitemap-${files.length + 1}.xml`;
+    await writeFile(path.join(outDir, name), urlsetXml(chunk));
+    files.push({ name, lastmod: latest(...chunk.map((u) => u.lastmod)) });
+  }
+  await writeFile(path.join(outDir, "sitemap.xml"), sitemapIndexXml(files));
+  return urls.length;
+}
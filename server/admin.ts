@@ -0,0 +1,106 @@
+import type { Express, Response } from "express";
+import { api } from "@shared/routes";
+import { storage, findTrek } from "./storage";
+import { isUniqueViolation, sendValidationError } from "./validation";
+import { requireAdmin } from "./auth";
+
+// Editor endpoints for the trek catalog. Bodies are validated against
+// insertTrekSchema / insertItineraryDaySchema (via api.admin.*.input).
+//
+// Note: seedDatabase() inserts every treks.json entry whose slug is missing,
+// so deleting or re-slugging a catalog trek here brings the original back on
+// the next restart. Edit treks.json as well for permanent catalog changes.
+
+function sendSlugConflict(res: Response, slug: string) {
+  return res.status(409).json({ message: `A trek with slug "${slug}" already exists`, field: "slug" });
+}
+
+// Express 4 doesn't catch rejected promises, so every handler hands its
+// errors to next() for the error middleware in index.ts.
+export function registerAdminRoutes(app: Express) {
+  app.post(api.admin.treks.create.path, requireAdmin, async (req, res, next) => {
+    const parsed = api.admin.treks.create.input.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    try {
+      if (await storage.getTrekBySlug(parsed.data.slug)) {
+        return sendSlugConflict(res, parsed.data.slug);
+      }
+      res.status(201).json(await storage.createTrek(parsed.data));
+    } catch (err) {
+      // Lost a race with a concurrent insert of the same slug
+      if (isUniqueViolation(err)) return sendSlugConflict(res, parsed.data.slug);
+      next(err);
+    }
+  });
+
+  app.put(api.admin.treks.update.path, requireAdmin, async (req, res, next) => {
+    const parsed = api.admin.treks.update.input.safeParse(req.body);
+    const slug = parsed.success ? parsed.data.slug : undefined;
+    try {
+      const trek = await findTrek(req.params.id);
+      if (!trek) return res.status(404).json({ message: "Trek not found" });
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+
+      if (slug !== undefined && slug !== trek.slug && (await storage.getTrekBySlug(slug))) {
+        return sendSlugConflict(res, slug);
+      }
+      res.json(await storage.updateTrek(trek.id, parsed.data));
+    } catch (err) {
+      if (isUniqueViolation(err) && slug !== undefined) return sendSlugConflict(res, slug);
+      next(err);
+    }
+  });
+
+  app.delete(api.admin.treks.delete.path, requireAdmin, async (req, res, next) => {
+    try {
+      const trek = await findTrek(req.params.id);
+      if (!trek || !(await storage.deleteTrek(trek.id))) {
+        return res.status(404).json({ message: "Trek not found" });
+      }
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  // === Itinerary ===
+
+  app.post(api.admin.itinerary.create.path, requireAdmin, async (req, res, next) => {
+    try {
+      const trek = await findTrek(req.params.id);
+      if (!trek) return res.status(404).json({ message: "Trek not found" });
+
+      const parsed = api.admin.itinerary.create.input.safeParse(req.body);
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+      res.status(201).json(await storage.createItineraryDay({ ...parsed.data, trekId: trek.id }));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put(api.admin.itinerary.replace.path, requireAdmin, async (req, res, next) => {
+    try {
+      const trek = await findTrek(req.params.id);
+      if (!trek) return res.status(404).json({ message: "Trek not found" });
+
+      const parsed = api.admin.itinerary.replace.input.safeParse(req.body);
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+      res.json(await storage.replaceItinerary(trek.id, parsed.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete(api.admin.itinerary.delete.path, requireAdmin, async (req, res, next) => {
+    try {
+      const trek = await findTrek(req.params.id);
+      if (!trek) return res.status(404).json({ message: "Trek not found" });
+
+      await storage.deleteItinerary(trek.id);
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+}
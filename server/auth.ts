@@ -0,0 +1,178 @@
+import type { Express, RequestHandler } from "express";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import createMemoryStore from "memorystore";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import { api } from "@shared/routes";
+import type { PublicUser, User } from "@shared/schema";
+import { storage } from "./storage";
+import { isUniqueViolation, sendValidationError } from "./validation";
+import { pool } from "./db";
+
+declare global {
+  namespace Express {
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+// Stored as "<hex hash>.<hex salt>"
+async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${buf.toString("hex")}.${salt}`;
+}
+
+async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashed, salt] = stored.split(".");
+  if (!hashed || !salt) return false;
+  const hashedBuf = Buffer.from(hashed, "hex");
+  const suppliedBuf = (await scryptAsync(password, salt, 64)) as Buffer;
+  return hashedBuf.length === suppliedBuf.length && timingSafeEqual(hashedBuf, suppliedBuf);
+}
+
+// Editors are listed by email in ADMIN_EMAILS (comma-separated). Read on each
+// call so a changed env var only needs a restart, not a re-login.
+function isAdminEmail(email: string): boolean {
+  return (process.env.ADMIN_EMAILS ?? "")
+    .split(",")
+    .map((e) => e.trim().toLowerCase())
+    .includes(email.toLowerCase());
+}
+
+function toPublicUser(user: User): PublicUser {
+  return { id: user.id, email: user.email, isAdmin: isAdminEmail(user.email) };
+}
+
+// Sessions live in Postgres when a database is configured and in memory
+// otherwise, matching the DatabaseStorage / MemStorage split in storage.ts.
+function createSessionStore(): session.Store {
+  if (pool) {
+    const PgStore = connectPg(session);
+    return new PgStore({ pool, createTableIfMissing: true });
+  }
+  const MemoryStore = createMemoryStore(session);
+  return new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+}
+
+export const requireAuth: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  next();
+};
+
+export const requireAdmin: RequestHandler = (req, res, next) => {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Not logged in" });
+  }
+  if (!req.user.isAdmin) {
+    return res.status(403).json({ message: "Admin access required" });
+  }
+  next();
+};
+
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret && process.env.NODE_ENV === "production") {
+    throw new Error("SESSION_SECRET must be set in production.");
+  }
+
+  app.set("trust proxy", 1);
+  app.use(
+    session({
+      secret: secret ?? "trekmind-dev-session-secret",
+      resave: false,
+      saveUninitialized: false,
+      store: createSessionStore(),
+      cookie: {
+        httpOnly: true,
+        sameSite: "lax",
+        secure: process.env.NODE_ENV === "production",
+        maxAge: 30 * 24 * 60 * 60 * 1000,
+      },
+    }),
+  );
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy({ usernameField: "email" }, async (email, password, done) => {
+      try {
+        const user = await storage.getUserByEmail(email.trim().toLowerCase());
+        if (!user || !(await verifyPassword(password, user.passwordHash))) {
+          return done(null, false, { message: "Invalid email or password" });
+        }
+        return done(null, toPublicUser(user));
+      } catch (err) {
+        return done(err);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      done(null, user ? toPublicUser(user) : false);
+    } catch (err) {
+      done(err);
+    }
+  });
+
+  app.post(api.auth.register.path, async (req, res, next) => {
+    const parsed = api.auth.register.input.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const { email, password } = parsed.data;
+    const sendEmailTaken = () =>
+      res.status(400).json({ message: "An account with this email already exists", field: "email" });
+
+    let user: PublicUser;
+    try {
+      if (await storage.getUserByEmail(email)) return sendEmailTaken();
+      user = toPublicUser(
+        await storage.createUser({ email, passwordHash: await hashPassword(password) }),
+      );
+    } catch (err) {
+      // A concurrent registration for the same email got there first
+      if (isUniqueViolation(err)) return sendEmailTaken();
+      return next(err);
+    }
+    req.login(user, (err) => {
+      if (err) return next(err);
+      res.status(201).json(user);
+    });
+  });
+
+  app.post(api.auth.login.path, (req, res, next) => {
+    passport.authenticate(
+      "local",
+      (err: unknown, user: Express.User | false, info?: { message: string }) => {
+        if (err) return next(err);
+        if (!user) {
+          return res.status(401).json({ message: info?.message ?? "Invalid email or password" });
+        }
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          res.status(200).json(user);
+        });
+      },
+    )(req, res, next);
+  });
+
+  app.post(api.auth.logout.path, (req, res, next) => {
+    req.logout((err) => {
+      if (err) return next(err);
+      res.sendStatus(204);
+    });
+  });
+
+  app.get(api.auth.me.path, requireAuth, (req, res) => {
+    res.json(req.user);
+  });
+}
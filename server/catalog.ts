@@ -0,0 +1,93 @@
+import treksData from "../client/src/data/treks.json";
+import type { InsertTrek, TrekCost } from "@shared/schema";
+
+// Raw shape of an entry in client/src/data/treks.json. Only the first 35
+// treks carry the numeric durationDays/distanceKm/maxAltitudeM fields; the
+// rest have display strings ("10 days", "2,500 km", "5416m") only.
+interface CatalogTrek {
+  id: string;
+  name: string;
+  tier: number;
+  region: string;
+  country: string;
+  terrain: string;
+  accommodation: string;
+  keyFeatures: string;
+  distance: string;
+  totalDays: string;
+  maxAltitude: string;
+  permits: string;
+  latitude: number;
+  longitude: number;
+  imageFilename: string;
+  season: string;
+  popularityScore: number;
+  durationBucket: string;
+  seasonMonths: number[];
+  budget: string;
+  costIndependent: TrekCost;
+  costGuided: TrekCost;
+  costNotes: string;
+  durationDays?: number;
+  distanceKm?: number;
+  maxAltitudeM?: number;
+}
+
+// First number in a display string, ignoring thousands separators:
+// "2,500 km" → 2500, "5–6 Days" → 5, "150 days (thru) / 3-14 days" → 150.
+function firstNumber(value: string | undefined): number {
+  const match = String(value ?? "").replace(/(\d),(\d{3})/g, "$1$2").match(/\d+(?:\.\d+)?/);
+  return match ? Math.round(parseFloat(match[0])) : 0;
+}
+
+// Same triggers as getRiskTags() in client/src/components/RiskTag.tsx, so the
+// boolean risk columns agree with the tags shown on the trek page.
+const WEATHER_TRIGGERS = [
+  "arctic", "glaciat", "glacier", "volcanic", "coastal", "exposed",
+  "monsoon", "desert", "polar", "fjord", "tundra", "patagoni",
+];
+const REMOTE_TRIGGERS = ["wild camping", "wilderness camp", "caves", "backcountry", "bivouac"];
+
+export function toInsertTrek(t: CatalogTrek): InsertTrek {
+  const maxAltitudeM = t.maxAltitudeM ?? firstNumber(t.maxAltitude);
+  const terrain = (t.terrain ?? "").toLowerCase();
+  const features = (t.keyFeatures ?? "").toLowerCase();
+  const accommodation = (t.accommodation ?? "").toLowerCase();
+  const permits = (t.permits ?? "").toLowerCase();
+
+  return {
+    slug: t.id,
+    name: t.name,
+    region: t.region,
+    country: t.country,
+    durationDays: t.durationDays ?? firstNumber(t.totalDays),
+    totalDays: t.totalDays,
+    distanceKm: t.distanceKm ?? firstNumber(t.distance),
+    maxAltitudeM,
+    bestSeason: t.season,
+    seasonMonths: t.seasonMonths ?? [],
+    latitude: t.latitude,
+    longitude: t.longitude,
+    heroImage: t.imageFilename,
+    riskAltitude: maxAltitudeM >= 3500,
+    riskWeather: WEATHER_TRIGGERS.some(w => terrain.includes(w) || features.includes(w)),
+    riskRemoteness: REMOTE_TRIGGERS.some(r => accommodation.includes(r)),
+    riskPermitsRequired: permits.startsWith("required") || permits.includes("permit required"),
+    tier: t.tier,
+    terrain: t.terrain,
+    accommodation: t.accommodation,
+    permits: t.permits,
+    keyFeatures: t.keyFeatures,
+    popularityScore: t.popularityScore,
+    durationBucket: t.durationBucket,
+    budget: t.budget,
+    costIndependent: t.costIndependent,
+    costGuided: t.costGuided,
+    costNotes: t.costNotes,
+  };
+}
+
+// The full catalog as insert rows, in treks.json order.
+export function loadTrekCatalog(): InsertTrek[] {
+  return (treksData as CatalogTrek[]).map(toInsertTrek);
+}
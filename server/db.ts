@@ -4,11 +4,22 @@ import * as schema from "@shared/schema";
 
 const { Pool } = pg;
 
-if (!process.env.DATABASE_URL) {
-  throw new Error(
-    "DATABASE_URL must be set. Did you forget to provision a database?",
-  );
-}
+// Without DATABASE_URL the server falls back to MemStorage (see storage.ts),
+// so the pool is only created when a database is actually configured.
+export const hasDatabase = Boolean(process.env.DATABASE_URL);
+
+export const pool = hasDatabase
+  ? new Pool({ connectionString: process.env.DATABASE_URL })
+  : null;
+export const db = pool ? drizzle(pool, { schema }) : null;
 
-export const pool = new Pool({ connectionString: process.env.DATABASE_URL });
-export const db = drizzle(pool, { schema });
+export type Database = NonNullable<typeof db>;
+
+export function requireDb(): Database {
+  if (!db) {
+    throw new Error(
+      "DATABASE_URL must be set. Did you forget to provision a database?",
+    );
+  }
+  return db;
+}
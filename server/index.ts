@@ -2,6 +2,7 @@ import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { serveStatic } from "./static";
 import { createServer } from "http";
+import { resolveTrekId } from "@shared/trekAliases";
 
 const app = express();
 const httpServer = createServer(app);
@@ -62,6 +63,14 @@ app.use((req, res, next) => {
 (async () => {
   await registerRoutes(httpServer, app);
 
+  // Legacy trek slugs → canonical page, same as dist/public/_redirects
+  app.get("/trek/:slug", (req, res, next) => {
+    const canonical = resolveTrekId(req.params.slug);
+    if (canonical === req.params.slug) return next();
+    const query = req.originalUrl.indexOf("?");
+    res.redirect(301, `/trek/${canonical}${query === -1 ? "" : req.originalUrl.slice(query)}`);
+  });
+
   app.use((err: any, _req: Request, res: Response, _next: NextFunction) => {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import type { IStorage } from "./storage";
+import {
+  normalizeItineraryDay,
+  normalizeWaypoints,
+  type ItineraryFile,
+  type ItineraryIssue,
+  type Waypoint,
+} from "@shared/itinerary";
+
+export interface ItineraryImportReport {
+  treksImported: number;
+  daysImported: number;
+  treksSkipped: number;
+  missingFiles: string[];
+  issues: ItineraryIssue[];
+}
+
+// A file that isn't valid JSON is treated as missing and, when `issues` is
+// given, listed there (field "file") rather than aborting the caller.
+function readTrekFile(dir: string, trekSlug: string, issues?: ItineraryIssue[]): Partial<ItineraryFile> | null {
+  const file = path.join(dir, `${trekSlug}.json`);
+  if (!fs.existsSync(file)) return null;
+  try {
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (err) {
+    const reason = `unreadable file: ${err instanceof Error ? err.message : String(err)}`;
+    if (issues) issues.push({ trekSlug, day: null, field: "file", value: file, reason });
+    else console.warn(`[itineraries] ${trekSlug}: ${reason}`);
+    return null;
+  }
+}
+
+export function readItineraryFile(
+  dir: string,
+  trekSlug: string,
+  issues?: ItineraryIssue[],
+): Record<string, unknown>[] | null {
+  const data = readTrekFile(dir, trekSlug, issues);
+  return Array.isArray(data?.itinerary) ? data.itinerary : null;
+}
+
+// Waypoints are not imported into the database; route exports read them
+// straight from the file.
+export function readWaypoints(dir: string, trekSlug: string): Waypoint[] {
+  return normalizeWaypoints(readTrekFile(dir, trekSlug)?.waypoints);
+}
+
+// Source itinerary files: client/public in development, copied to
+// dist/public by script/build.ts for production.
+export function resolveItineraryDir(): string | null {
+  const candidates = [
+    path.resolve(process.cwd(), "client", "public", "data", "itineraries"),
+    path.resolve(process.cwd(), "dist", "public", "data", "itineraries"),
+  ];
+  return candidates.find((dir) => fs.existsSync(dir)) ?? null;
+}
+
+// Imports itinerary days for every trek that has none yet. Rows that fail to
+// parse are still imported with the offending column left null, and each
+// failure is listed in the report.
+export async function importItineraries(
+  storage: IStorage,
+  dir: string,
+): Promise<ItineraryImportReport> {
+  const report: ItineraryImportReport = {
+    treksImported: 0,
+    daysImported: 0,
+    treksSkipped: 0,
+    missingFiles: [],
+    issues: [],
+  };
+
+  for (const trek of await storage.getTreks()) {
+    const existing = await storage.getTrek(trek.id);
+    if (existing && existing.itinerary.length > 0) {
+      report.treksSkipped++;
+      continue;
+    }
+
+    const issueCount = report.issues.length;
+    const rawDays = readItineraryFile(dir, trek.slug, report.issues);
+    if (!rawDays) {
+      // An unreadable file is already listed under issues
+      if (report.issues.length === issueCount) report.missingFiles.push(trek.slug);
+      continue;
+    }
+
+    for (const raw of rawDays) {
+      const day = normalizeItineraryDay(raw, trek.slug, report.issues);
+      if (!day) continue;
+      await storage.createItineraryDay({ ...day, trekId: trek.id });
+      report.daysImported++;
+    }
+    report.treksImported++;
+  }
+
+  return report;
+}
@@ -0,0 +1,47 @@
+import type { Trek } from "@shared/schema";
+import type { TrekQuery } from "@shared/routes";
+import { filterTreks } from "../client/src/lib/filterTreks";
+
+// Sort accessors for ?sort=. Each key has a natural default direction:
+// most popular / highest / longest first, names and tiers ascending.
+const SORTS: Record<NonNullable<TrekQuery["sort"]>, { value: (t: Trek) => number | string; desc: boolean }> = {
+  popularity: { value: (t) => t.popularityScore ?? 0, desc: true },
+  name: { value: (t) => t.name, desc: false },
+  duration: { value: (t) => t.durationDays, desc: false },
+  altitude: { value: (t) => t.maxAltitudeM, desc: true },
+  distance: { value: (t) => t.distanceKm, desc: false },
+  tier: { value: (t) => t.tier, desc: false },
+};
+
+// Filters with the same filterTreks() the browser uses, so the API and the
+// globe/cards views agree on every result. DB rows carry the fields it reads
+// (tier, region, durationBucket, terrain, accommodation, popularityScore,
+// seasonMonths, budget) under the same names as treks.json.
+export function queryTreks(all: Trek[], query: TrekQuery): { treks: Trek[]; total: number } {
+  const filtered: Trek[] = filterTreks(all, {
+    tier: query.tier,
+    region: query.region,
+    duration: query.duration,
+    terrain: query.terrain,
+    accommodation: query.accommodation,
+    popularity: query.popularity,
+    month: query.month,
+    budget: query.budget,
+  });
+
+  if (query.sort) {
+    const { value, desc } = SORTS[query.sort];
+    const direction = (query.order ? query.order === "desc" : desc) ? -1 : 1;
+    filtered.sort((a, b) => {
+      const va = value(a);
+      const vb = value(b);
+      const cmp = typeof va === "string" ? va.localeCompare(String(vb)) : va - Number(vb);
+      return cmp * direction;
+    });
+  }
+
+  if (query.limit === undefined) return { treks: filtered, total: filtered.length };
+
+  const start = (query.page - 1) * query.limit;
+  return { treks: filtered.slice(start, start + query.limit), total: filtered.length };
+}
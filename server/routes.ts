@@ -1,264 +1,166 @@
 import type { Express } from "express";
 import type { Server } from "http";
-import { storage } from "./storage";
+import { storage, findTrek } from "./storage";
+import { sendValidationError } from "./validation";
 import { api } from "@shared/routes";
+import { loadTrekCatalog } from "./catalog";
+import { queryTreks } from "./query";
+import { importItineraries, readWaypoints, resolveItineraryDir } from "./itineraries";
+import { ROUTE_FORMATS, hasRouteData, type RouteFormat, type TrekRoute } from "@shared/routeExport";
+import { setupAuth, requireAuth } from "./auth";
+import { registerAdminRoutes } from "./admin";
+import { resolveTrekId } from "@shared/trekAliases";
 
 export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  setupAuth(app);
+
   app.get(api.treks.list.path, async (req, res) => {
-    const treksList = await storage.getTreks();
-    res.json(treksList);
+    const parsed = api.treks.list.input.safeParse(req.query);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+
+    const { treks, total } = queryTreks(await storage.getTreks(), parsed.data);
+    res.set("X-Total-Count", String(total));
+    res.json(treks);
   });
 
   app.get(api.treks.get.path, async (req, res) => {
-    // Check if it's a numeric ID or a slug
-    const id = req.params.id;
-    let trek;
-    if (/^\d+$/.test(id)) {
-      trek = await storage.getTrek(Number(id));
-    } else {
-      trek = await storage.getTrekBySlug(id);
-    }
-    
+    const trek = await findTrek(req.params.id);
     if (!trek) {
       return res.status(404).json({ message: "Trek not found" });
     }
     res.json(trek);
   });
 
+  for (const format of Object.keys(ROUTE_FORMATS) as RouteFormat[]) {
+    app.get(api.treks[format].path, async (req, res) => {
+      const route = await loadTrekRoute(req.params.id);
+      if (!route) return res.status(404).json({ message: "Trek not found" });
+      if (!hasRouteData(route)) return res.status(404).json({ message: "No route data for this trek" });
+
+      const { contentType, render } = ROUTE_FORMATS[format];
+      res.type(contentType);
+      res.attachment(`${route.slug}.${format}`);
+      res.send(render(route));
+    });
+  }
+
+  // === Saved treks & preferences (self-hosted alternative to Supabase) ===
+
+  app.get(api.savedTreks.list.path, requireAuth, async (req, res, next) => {
+    try {
+      res.json(await storage.getSavedTreks(req.user!.id));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put(api.savedTreks.upsert.path, requireAuth, async (req, res, next) => {
+    const parsed = api.savedTreks.upsert.input.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+    try {
+      res.json(await storage.upsertSavedTreks(req.user!.id, parsed.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.delete(api.savedTreks.delete.path, requireAuth, async (req, res, next) => {
+    try {
+      await storage.deleteSavedTrek(req.user!.id, req.params.trekId);
+      res.sendStatus(204);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.get(api.preferences.get.path, requireAuth, async (req, res, next) => {
+    try {
+      res.json((await storage.getPreferences(req.user!.id)) ?? null);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  app.put(api.preferences.update.path, requireAuth, async (req, res, next) => {
+    const parsed = api.preferences.update.input.safeParse(req.body);
+    if (!parsed.success) return sendValidationError(res, parsed.error);
+    try {
+      res.json(await storage.updatePreferences(req.user!.id, parsed.data));
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  registerAdminRoutes(app);
+
   // Seed data function
   await seedDatabase();
 
   return httpServer;
 }
 
+// Daily stops come from the database, waypoints from the itinerary file
+async function loadTrekRoute(idOrSlug: string): Promise<TrekRoute | undefined> {
+  const trek = await findTrek(idOrSlug);
+  if (!trek) return undefined;
+  const itineraryDir = resolveItineraryDir();
+  return {
+    slug: trek.slug,
+    name: trek.name,
+    description: `${trek.region}, ${trek.country}`,
+    days: trek.itinerary,
+    waypoints: itineraryDir ? readWaypoints(itineraryDir, trek.slug) : [],
+  };
+}
+
+// Inserts every catalog trek from client/src/data/treks.json whose slug is not
+// already present, so the API serves the same 150 treks the client bundles.
+//
+// Rows left by the original 10-trek seed are removed first: those under a
+// legacy slug ("everest-base-camp") would be duplicates of the catalog row
+// ("ebc") that lookups resolve to, and those under a catalog slug
+// ("kilimanjaro") hold the old data — they predate totalDays, which every
+// catalog row has — so they are re-created from the catalog below.
 async function seedDatabase() {
+  const catalog = loadTrekCatalog();
+  const catalogSlugs = new Set(catalog.map((t) => t.slug));
+  for (const trek of await storage.getTreks()) {
+    const legacySlug = resolveTrekId(trek.slug) !== trek.slug;
+    const legacyRow = catalogSlugs.has(trek.slug) && trek.totalDays == null;
+    if (legacySlug || legacyRow) {
+      await storage.deleteTrek(trek.id);
+      console.log(`[seed] removed legacy trek row "${trek.slug}"`);
+    }
+  }
+
   const existingTreks = await storage.getTreks();
-  if (existingTreks.length > 0) return;
+  const existingSlugs = new Set(existingTreks.map((t) => t.slug));
 
-  const treksJson = [
-    {
-      "id": "annapurna-circuit",
-      "name": "Annapurna Circuit",
-      "region": "Himalayas",
-      "country": "Nepal",
-      "duration_days": 14,
-      "distance_km": 160,
-      "max_altitude_m": 5416,
-      "difficulty": "Hard",
-      "best_season": "March–May, September–November",
-      "risk": {
-        "altitude": true,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": true
-      },
-      "latitude": 28.5983,
-      "longitude": 83.9311,
-      "hero_image": "/images/annapurna.jpg"
-    },
-    {
-      "id": "tour-du-mont-blanc",
-      "name": "Tour du Mont Blanc",
-      "region": "Alps",
-      "country": "France / Italy / Switzerland",
-      "duration_days": 11,
-      "distance_km": 170,
-      "max_altitude_m": 2665,
-      "difficulty": "Moderate",
-      "best_season": "June–September",
-      "risk": {
-        "altitude": false,
-        "weather": true,
-        "remoteness": false,
-        "permits_required": false
-      },
-      "latitude": 45.8326,
-      "longitude": 6.8652,
-      "hero_image": "/images/tmb.jpg"
-    },
-    {
-      "id": "torres-del-paine-o",
-      "name": "Torres del Paine O Circuit",
-      "region": "Patagonia",
-      "country": "Chile",
-      "duration_days": 8,
-      "distance_km": 130,
-      "max_altitude_m": 1200,
-      "difficulty": "Hard",
-      "best_season": "November–March",
-      "risk": {
-        "altitude": false,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": true
-      },
-      "latitude": -50.9423,
-      "longitude": -73.4068,
-      "hero_image": "/images/torres.jpg"
-    },
-    {
-      "id": "alta-via-1",
-      "name": "Alta Via 1",
-      "region": "Dolomites",
-      "country": "Italy",
-      "duration_days": 10,
-      "distance_km": 120,
-      "max_altitude_m": 2750,
-      "difficulty": "Moderate",
-      "best_season": "July–September",
-      "risk": {
-        "altitude": false,
-        "weather": true,
-        "remoteness": false,
-        "permits_required": false
-      },
-      "latitude": 46.4102,
-      "longitude": 12.2231,
-      "hero_image": "/images/altavia1.jpg"
-    },
-    {
-      "id": "kilimanjaro",
-      "name": "Mount Kilimanjaro",
-      "region": "East Africa",
-      "country": "Tanzania",
-      "duration_days": 7,
-      "distance_km": 65,
-      "max_altitude_m": 5895,
-      "difficulty": "Hard",
-      "best_season": "January–March, June–October",
-      "risk": {
-        "altitude": true,
-        "weather": true,
-        "remoteness": false,
-        "permits_required": true
-      },
-      "latitude": -3.0674,
-      "longitude": 37.3556,
-      "hero_image": "/images/kilimanjaro.jpg"
-    },
-    {
-      "id": "pacific-crest-trail",
-      "name": "Pacific Crest Trail (Section)",
-      "region": "North America",
-      "country": "USA",
-      "duration_days": 30,
-      "distance_km": 430,
-      "max_altitude_m": 4009,
-      "difficulty": "Extreme",
-      "best_season": "June–September",
-      "risk": {
-        "altitude": true,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": true
-      },
-      "latitude": 36.7783,
-      "longitude": -119.4179,
-      "hero_image": "/images/pct.jpg"
-    },
-    {
-      "id": "routeburn-track",
-      "name": "Routeburn Track",
-      "region": "South Island",
-      "country": "New Zealand",
-      "duration_days": 3,
-      "distance_km": 33,
-      "max_altitude_m": 1255,
-      "difficulty": "Moderate",
-      "best_season": "November–April",
-      "risk": {
-        "altitude": false,
-        "weather": true,
-        "remoteness": false,
-        "permits_required": true
-      },
-      "latitude": -44.7397,
-      "longitude": 168.0848,
-      "hero_image": "/images/routeburn.jpg"
-    },
-    {
-      "id": "everest-base-camp",
-      "name": "Everest Base Camp",
-      "region": "Himalayas",
-      "country": "Nepal",
-      "duration_days": 12,
-      "distance_km": 130,
-      "max_altitude_m": 5364,
-      "difficulty": "Hard",
-      "best_season": "March–May, September–November",
-      "risk": {
-        "altitude": true,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": true
-      },
-      "latitude": 28.0043,
-      "longitude": 86.8571,
-      "hero_image": "/images/ebc.jpg"
-    },
-    {
-      "id": "laugavegur",
-      "name": "Laugavegur Trail",
-      "region": "Iceland Highlands",
-      "country": "Iceland",
-      "duration_days": 4,
-      "distance_km": 55,
-      "max_altitude_m": 1050,
-      "difficulty": "Moderate",
-      "best_season": "June–September",
-      "risk": {
-        "altitude": false,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": false
-      },
-      "latitude": 63.9833,
-      "longitude": -19.0619,
-      "hero_image": "/images/laugavegur.jpg"
-    },
-    {
-      "id": "huayhuash",
-      "name": "Cordillera Huayhuash",
-      "region": "Andes",
-      "country": "Peru",
-      "duration_days": 10,
-      "distance_km": 130,
-      "max_altitude_m": 5020,
-      "difficulty": "Extreme",
-      "best_season": "May–September",
-      "risk": {
-        "altitude": true,
-        "weather": true,
-        "remoteness": true,
-        "permits_required": true
-      },
-      "latitude": -10.2706,
-      "longitude": -76.9025,
-      "hero_image": "/images/huayhuash.jpg"
-    }
-  ];
+  for (const trek of catalog) {
+    if (existingSlugs.has(trek.slug)) continue;
+    await storage.createTrek(trek);
+  }
 
-  for (const t of treksJson) {
-    await storage.createTrek({
-      slug: t.id,
-      name: t.name,
-      region: t.region,
-      country: t.country,
-      durationDays: t.duration_days,
-      distanceKm: t.distance_km,
-      maxAltitudeM: t.max_altitude_m,
-      difficulty: t.difficulty,
-      bestSeason: t.best_season,
-      latitude: t.latitude,
-      longitude: t.longitude,
-      heroImage: t.hero_image,
-      riskAltitude: t.risk.altitude,
-      riskWeather: t.risk.weather,
-      riskRemoteness: t.risk.remoteness,
-      riskPermitsRequired: t.risk.permits_required,
-    });
+  const itineraryDir = resolveItineraryDir();
+  if (!itineraryDir) {
+    console.warn("[seed] itinerary directory not found, skipping itinerary import");
+    return;
+  }
+
+  const report = await importItineraries(storage, itineraryDir);
+  console.log(
+    `[seed] itineraries: ${report.treksImported} treks / ${report.daysImported} days imported, ` +
+      `${report.treksSkipped} already present, ${report.missingFiles.length} without a file`,
+  );
+  if (report.missingFiles.length > 0) {
+    console.warn(`[seed] no itinerary file for: ${report.missingFiles.join(", ")}`);
+  }
+  for (const issue of report.issues) {
+    console.warn(
+      `[seed] ${issue.trekSlug}${issue.day == null ? "" : ` day ${String(issue.day)}`}: ${issue.field} = ${JSON.stringify(issue.value)} (${issue.reason})`,
+    );
   }
 }
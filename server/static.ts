@@ -10,7 +10,8 @@ export function serveStatic(app: Express) {
     );
   }
 
-  app.use(express.static(distPath));
+  // extensions: prerendered pages live at e.g. trek/<id>.html (script/prerender.ts)
+  app.use(express.static(distPath, { extensions: ["html"] }));
 
   // fall through to index.html if the file doesn't exist
   app.use("*", (_req, res) => {
@@ -1,14 +1,23 @@
-import { db } from "./db";
+import { hasDatabase, requireDb, type Database } from "./db";
 import {
   treks,
   itineraryDays,
+  users,
+  savedTreks,
+  userPreferences,
   type Trek,
   type ItineraryDay,
   type TrekDetail,
   type InsertTrek,
-  type InsertItineraryDay
+  type InsertItineraryDay,
+  type User,
+  type SavedTrek,
+  type InsertSavedTrek,
+  type UserPreferences,
+  type UpdatePreferences
 } from "@shared/schema";
-import { eq } from "drizzle-orm";
+import { resolveTrekId } from "@shared/trekAliases";
+import { and, eq, sql } from "drizzle-orm";
 
 export interface IStorage {
   getTreks(): Promise<Trek[]>;
@@ -16,19 +25,35 @@ export interface IStorage {
   getTrekBySlug(slug: string): Promise<TrekDetail | undefined>;
   createTrek(trek: InsertTrek): Promise<Trek>;
   createItineraryDay(day: InsertItineraryDay): Promise<ItineraryDay>;
+  updateTrek(id: number, patch: Partial<InsertTrek>): Promise<Trek | undefined>;
+  /** Deletes the trek and its itinerary; false when no trek has this id */
+  deleteTrek(id: number): Promise<boolean>;
+  replaceItinerary(trekId: number, days: Omit<InsertItineraryDay, "trekId">[]): Promise<ItineraryDay[]>;
+  deleteItinerary(trekId: number): Promise<void>;
   clearAll(): Promise<void>;
+
+  getUser(id: number): Promise<User | undefined>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createUser(user: { email: string; passwordHash: string }): Promise<User>;
+  getSavedTreks(userId: number): Promise<SavedTrek[]>;
+  upsertSavedTreks(userId: number, entries: InsertSavedTrek[]): Promise<SavedTrek[]>;
+  deleteSavedTrek(userId: number, trekId: string): Promise<void>;
+  getPreferences(userId: number): Promise<UserPreferences | undefined>;
+  updatePreferences(userId: number, prefs: UpdatePreferences): Promise<UserPreferences>;
 }
 
 export class DatabaseStorage implements IStorage {
+  constructor(private db: Database = requireDb()) {}
+
   async getTreks(): Promise<Trek[]> {
-    return await db.select().from(treks);
+    return await this.db.select().from(treks);
   }
 
   async getTrek(id: number): Promise<TrekDetail | undefined> {
-    const trek = await db.select().from(treks).where(eq(treks.id, id)).limit(1);
+    const trek = await this.db.select().from(treks).where(eq(treks.id, id)).limit(1);
     if (trek.length === 0) return undefined;
 
-    const itinerary = await db
+    const itinerary = await this.db
       .select()
       .from(itineraryDays)
       .where(eq(itineraryDays.trekId, id))
@@ -38,10 +63,10 @@ export class DatabaseStorage implements IStorage {
   }
 
   async getTrekBySlug(slug: string): Promise<TrekDetail | undefined> {
-    const trek = await db.select().from(treks).where(eq(treks.slug, slug)).limit(1);
+    const trek = await this.db.select().from(treks).where(eq(treks.slug, resolveTrekId(slug))).limit(1);
     if (trek.length === 0) return undefined;
 
-    const itinerary = await db
+    const itinerary = await this.db
       .select()
       .from(itineraryDays)
       .where(eq(itineraryDays.trekId, trek[0].id))
@@ -51,19 +76,341 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createTrek(trek: InsertTrek): Promise<Trek> {
-    const [newTrek] = await db.insert(treks).values(trek).returning();
+    const [newTrek] = await this.db.insert(treks).values(trek).returning();
     return newTrek;
   }
 
   async createItineraryDay(day: InsertItineraryDay): Promise<ItineraryDay> {
-    const [newDay] = await db.insert(itineraryDays).values(day).returning();
+    const [newDay] = await this.db.insert(itineraryDays).values(day).returning();
     return newDay;
   }
 
+  async updateTrek(id: number, patch: Partial<InsertTrek>): Promise<Trek | undefined> {
+    if (Object.keys(patch).length === 0) {
+      const [trek] = await this.db.select().from(treks).where(eq(treks.id, id)).limit(1);
+      return trek;
+    }
+    const [updated] = await this.db.update(treks).set(patch).where(eq(treks.id, id)).returning();
+    return updated;
+  }
+
+  async deleteTrek(id: number): Promise<boolean> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(itineraryDays).where(eq(itineraryDays.trekId, id));
+      const deleted = await tx.delete(treks).where(eq(treks.id, id)).returning({ id: treks.id });
+      return deleted.length > 0;
+    });
+  }
+
+  async replaceItinerary(
+    trekId: number,
+    days: Omit<InsertItineraryDay, "trekId">[],
+  ): Promise<ItineraryDay[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(itineraryDays).where(eq(itineraryDays.trekId, trekId));
+      if (days.length === 0) return [];
+      const inserted = await tx
+        .insert(itineraryDays)
+        .values(days.map((d) => ({ ...d, trekId })))
+        .returning();
+      return inserted.sort((a, b) => a.dayNumber - b.dayNumber);
+    });
+  }
+
+  async deleteItinerary(trekId: number): Promise<void> {
+    await this.db.delete(itineraryDays).where(eq(itineraryDays.trekId, trekId));
+  }
+
+  async clearAll(): Promise<void> {
+    await this.db.delete(itineraryDays);
+    await this.db.delete(treks);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id)).limit(1);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email)).limit(1);
+    return user;
+  }
+
+  async createUser(user: { email: string; passwordHash: string }): Promise<User> {
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async getSavedTreks(userId: number): Promise<SavedTrek[]> {
+    return await this.db
+      .select()
+      .from(savedTreks)
+      .where(eq(savedTreks.userId, userId))
+      .orderBy(savedTreks.createdAt);
+  }
+
+  async upsertSavedTreks(userId: number, entries: InsertSavedTrek[]): Promise<SavedTrek[]> {
+    if (entries.length > 0) {
+      await this.db
+        .insert(savedTreks)
+        .values(entries.map((e) => ({ ...e, userId })))
+        .onConflictDoUpdate({
+          target: [savedTreks.userId, savedTreks.trekId],
+          set: { status: sql`excluded.status` },
+        });
+    }
+    return this.getSavedTreks(userId);
+  }
+
+  async deleteSavedTrek(userId: number, trekId: string): Promise<void> {
+    await this.db
+      .delete(savedTreks)
+      .where(and(eq(savedTreks.userId, userId), eq(savedTreks.trekId, trekId)));
+  }
+
+  async getPreferences(userId: number): Promise<UserPreferences | undefined> {
+    const [prefs] = await this.db
+      .select()
+      .from(userPreferences)
+      .where(eq(userPreferences.userId, userId))
+      .limit(1);
+    return prefs;
+  }
+
+  async updatePreferences(userId: number, prefs: UpdatePreferences): Promise<UserPreferences> {
+    const [updated] = await this.db
+      .insert(userPreferences)
+      .values({ ...prefs, userId })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...prefs, updatedAt: new Date() },
+      })
+      .returning();
+    return updated;
+  }
+}
+
+// === IN-MEMORY STORAGE ===
+// Used when DATABASE_URL is not set (local development, tests). Starts empty
+// and is filled from treks.json and the itinerary files by the same
+// seedDatabase() path as Postgres, so both backends serve identical data.
+// Mirrors the table behaviour the API relies on: serial ids, column
+// defaults, NULL for omitted optional columns, the unique slug constraint and
+// itinerary ordering by day number.
+
+const TREK_DEFAULTS = {
+  totalDays: null,
+  difficulty: null,
+  seasonMonths: [] as number[],
+  riskAltitude: false,
+  riskWeather: false,
+  riskRemoteness: false,
+  riskPermitsRequired: false,
+  tier: 3,
+  terrain: null,
+  accommodation: null,
+  permits: null,
+  keyFeatures: null,
+  popularityScore: null,
+  durationBucket: null,
+  budget: null,
+  costIndependent: null,
+  costGuided: null,
+  costNotes: null,
+} satisfies Partial<Trek>;
+
+const ITINERARY_DAY_DEFAULTS = {
+  distanceKm: null,
+  altitudeM: null,
+  elevationGainM: null,
+  elevationLossM: null,
+  campType: null,
+  overnight: null,
+  latitude: null,
+  longitude: null,
+} satisfies Partial<ItineraryDay>;
+
+// drizzle-zod insert types allow explicit `undefined`, which must not
+// override a column default.
+function definedOnly<T extends object>(values: T): T {
+  return Object.fromEntries(
+    Object.entries(values).filter(([, v]) => v !== undefined),
+  ) as T;
+}
+
+// Same shape and code as the Postgres unique_violation error
+class UniqueViolationError extends Error {
+  code = "23505";
+  constructor(constraint: string) {
+    super(`duplicate key value violates unique constraint "${constraint}"`);
+  }
+}
+
+export class MemStorage implements IStorage {
+  private treks = new Map<number, Trek>();
+  private itineraryDays = new Map<number, ItineraryDay>();
+  private users = new Map<number, User>();
+  private savedTreks = new Map<number, SavedTrek>();
+  private preferences = new Map<number, UserPreferences>();
+  private nextTrekId = 1;
+  private nextItineraryDayId = 1;
+  private nextUserId = 1;
+  private nextSavedTrekId = 1;
+
+  async getTreks(): Promise<Trek[]> {
+    return Array.from(this.treks.values(), (t) => ({ ...t }));
+  }
+
+  async getTrek(id: number): Promise<TrekDetail | undefined> {
+    const trek = this.treks.get(id);
+    if (!trek) return undefined;
+    return { ...trek, itinerary: this.itineraryFor(id) };
+  }
+
+  async getTrekBySlug(slug: string): Promise<TrekDetail | undefined> {
+    const canonical = resolveTrekId(slug);
+    const trek = Array.from(this.treks.values()).find((t) => t.slug === canonical);
+    if (!trek) return undefined;
+    return { ...trek, itinerary: this.itineraryFor(trek.id) };
+  }
+
+  async createTrek(trek: InsertTrek): Promise<Trek> {
+    if (Array.from(this.treks.values()).some((t) => t.slug === trek.slug)) {
+      throw new UniqueViolationError("treks_slug_unique");
+    }
+    const newTrek: Trek = { ...TREK_DEFAULTS, ...definedOnly(trek), id: this.nextTrekId++ };
+    this.treks.set(newTrek.id, newTrek);
+    return { ...newTrek };
+  }
+
+  async createItineraryDay(day: InsertItineraryDay): Promise<ItineraryDay> {
+    const newDay: ItineraryDay = {
+      ...ITINERARY_DAY_DEFAULTS,
+      ...definedOnly(day),
+      id: this.nextItineraryDayId++,
+    };
+    this.itineraryDays.set(newDay.id, newDay);
+    return { ...newDay };
+  }
+
+  async updateTrek(id: number, patch: Partial<InsertTrek>): Promise<Trek | undefined> {
+    const trek = this.treks.get(id);
+    if (!trek) return undefined;
+    if (
+      patch.slug !== undefined &&
+      Array.from(this.treks.values()).some((t) => t.slug === patch.slug && t.id !== id)
+    ) {
+      throw new UniqueViolationError("treks_slug_unique");
+    }
+    const updated: Trek = { ...trek, ...definedOnly(patch), id };
+    this.treks.set(id, updated);
+    return { ...updated };
+  }
+
+  async deleteTrek(id: number): Promise<boolean> {
+    await this.deleteItinerary(id);
+    return this.treks.delete(id);
+  }
+
+  async replaceItinerary(
+    trekId: number,
+    days: Omit<InsertItineraryDay, "trekId">[],
+  ): Promise<ItineraryDay[]> {
+    await this.deleteItinerary(trekId);
+    for (const day of days) await this.createItineraryDay({ ...day, trekId });
+    return this.itineraryFor(trekId);
+  }
+
+  async deleteItinerary(trekId: number): Promise<void> {
+    for (const [id, d] of Array.from(this.itineraryDays)) {
+      if (d.trekId === trekId) this.itineraryDays.delete(id);
+    }
+  }
+
   async clearAll(): Promise<void> {
-    await db.delete(itineraryDays);
-    await db.delete(treks);
+    // Like DELETE FROM, this keeps the id sequences where they were
+    this.itineraryDays.clear();
+    this.treks.clear();
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const user = this.users.get(id);
+    return user && { ...user };
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const user = Array.from(this.users.values()).find((u) => u.email === email);
+    return user && { ...user };
+  }
+
+  async createUser(user: { email: string; passwordHash: string }): Promise<User> {
+    if (Array.from(this.users.values()).some((u) => u.email === user.email)) {
+      throw new UniqueViolationError("users_email_unique");
+    }
+    const newUser: User = { ...user, id: this.nextUserId++, createdAt: new Date() };
+    this.users.set(newUser.id, newUser);
+    return { ...newUser };
+  }
+
+  async getSavedTreks(userId: number): Promise<SavedTrek[]> {
+    return Array.from(this.savedTreks.values())
+      .filter((s) => s.userId === userId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((s) => ({ ...s }));
+  }
+
+  async upsertSavedTreks(userId: number, entries: InsertSavedTrek[]): Promise<SavedTrek[]> {
+    for (const entry of entries) {
+      const existing = Array.from(this.savedTreks.values())
+        .find((s) => s.userId === userId && s.trekId === entry.trekId);
+      if (existing) {
+        existing.status = entry.status;
+      } else {
+        const id = this.nextSavedTrekId++;
+        this.savedTreks.set(id, { ...entry, id, userId, createdAt: new Date() });
+      }
+    }
+    return this.getSavedTreks(userId);
+  }
+
+  async deleteSavedTrek(userId: number, trekId: string): Promise<void> {
+    for (const [id, s] of Array.from(this.savedTreks)) {
+      if (s.userId === userId && s.trekId === trekId) this.savedTreks.delete(id);
+    }
+  }
+
+  async getPreferences(userId: number): Promise<UserPreferences | undefined> {
+    const prefs = this.preferences.get(userId);
+    return prefs && { ...prefs };
+  }
+
+  async updatePreferences(userId: number, prefs: UpdatePreferences): Promise<UserPreferences> {
+    const updated: UserPreferences = {
+      hasSeenIntro: false,
+      filterPresets: [],
+      finderSessions: [],
+      ...this.preferences.get(userId),
+      ...definedOnly(prefs),
+      userId,
+      updatedAt: new Date(),
+    };
+    this.preferences.set(userId, updated);
+    return { ...updated };
+  }
+
+  private itineraryFor(trekId: number): ItineraryDay[] {
+    return Array.from(this.itineraryDays.values())
+      .filter((d) => d.trekId === trekId)
+      .sort((a, b) => a.dayNumber - b.dayNumber)
+      .map((d) => ({ ...d }));
   }
 }
 
-export const storage = new DatabaseStorage();
+export const storage: IStorage = hasDatabase ? new DatabaseStorage() : new MemStorage();
+
+// Trek URLs accept the numeric id, the slug or a legacy slug (shared/trekAliases.ts)
+export async function findTrek(idOrSlug: string): Promise<TrekDetail | undefined> {
+  return /^\d+$/.test(idOrSlug)
+    ? storage.getTrek(Number(idOrSlug))
+    : storage.getTrekBySlug(idOrSlug);
+}
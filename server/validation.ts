@@ -0,0 +1,29 @@
+import type { Response } from "express";
+import type { ZodError } from "zod";
+import { fromZodError } from "zod-validation-error";
+
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+// 400 response for a failed zod parse. `message` is the readable summary from
+// zod-validation-error, `errors` lists every failing field so forms can show
+// them inline, and `field` (the first one) keeps older clients working.
+export function sendValidationError(res: Response, error: ZodError) {
+  const errors: FieldError[] = error.errors.map((issue) => ({
+    field: issue.path.join("."),
+    message: issue.message,
+  }));
+  return res.status(400).json({
+    message: fromZodError(error).message,
+    field: errors[0]?.field,
+    errors,
+  });
+}
+
+// Postgres unique_violation — e.g. a concurrent insert won the race for a slug
+// or email that was free when checked.
+export function isUniqueViolation(err: unknown): boolean {
+  return typeof err === "object" && err !== null && (err as { code?: unknown }).code === "23505";
+}
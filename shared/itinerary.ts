@@ -0,0 +1,235 @@
+import type { InsertItineraryDay } from "./schema";
+
+// Per-trek itinerary files (client/public/data/itineraries/{trekId}.json) were
+// assembled from several spreadsheets, so the same value appears under many
+// field names and in many string formats. Everything below maps those onto the
+// canonical itinerary_days columns.
+//
+// Pure functions only: server/itineraries.ts uses them for the database
+// import and the client for route downloads built from the static files.
+
+const TITLE_FIELDS = [
+  "route", "routePaths", "sectionRoute", "routeKeyCheckpoints",
+  "routeStandardLoop", "routeStandard4Day", "routeKasToDemre",
+];
+const DESCRIPTION_FIELDS = ["mapNote", "keyHighlight", "highlights", "highlights&Terrain", "feature"];
+const DISTANCE_FIELDS = ["distanceKm", "distance"];
+const ALTITUDE_FIELDS = [
+  "maxAltM", "maxAlt", "maxAltitude", "highPoint",
+  "elevation", "maxElevation", "elevationM", "altM", "alt", "altitude",
+];
+const GAIN_FIELDS = ["elevGainM", "elevGain"];
+const LOSS_FIELDS = ["elevLossM", "elevLoss"];
+// "+750m / -300m" style values carrying both gain and loss
+const GAIN_LOSS_FIELDS = ["elevGainLoss", "elevChange"];
+const OVERNIGHT_FIELDS = ["overnight", "overnightStay"];
+
+// Placeholders the source sheets use for "no value"
+const EMPTY_VALUES = new Set(["", "—", "–", "-", "n/a", "na", "none", "tbc"]);
+
+// Highest summit on any trek is below 9,000 m; the Dead Sea shore is about -430 m.
+const MIN_ALTITUDE_M = -500;
+const MAX_ALTITUDE_M = 9000;
+
+export interface ItineraryIssue {
+  trekSlug: string;
+  day: unknown;
+  field: string;
+  value: unknown;
+  reason: string;
+}
+
+interface Measure {
+  value: number;
+  unit: string;
+  sign: string;
+}
+
+function isEmpty(value: unknown): boolean {
+  return value === null || value === undefined || EMPTY_VALUES.has(String(value).trim().toLowerCase());
+}
+
+function firstField(raw: Record<string, unknown>, fields: string[]): [string, unknown] | null {
+  for (const field of fields) {
+    if (!isEmpty(raw[field])) return [field, raw[field]];
+  }
+  return null;
+}
+
+// Every number in the string with its sign and unit. Thousands separators are
+// removed first so "825 m (2,700 ft)" yields [825 m, 2700 ft] rather than the
+// 8252700 a naive strip-non-digits produces.
+function extractMeasures(value: unknown): Measure[] {
+  if (typeof value === "number") return [{ value, unit: "", sign: "" }];
+  const str = String(value).replace(/(\d),(?=\d{3}(?!\d))/g, "$1");
+  // A sign only counts when it is not part of a range such as "5-6"
+  const pattern = /(?:(?<![\w.])([+\-−]))?\s*(\d+(?:\.\d+)?)\s*(kilometres|kilometers|km|miles|mi\b|feet|ft|metres|meters|m\b)?/gi;
+  return Array.from(str.matchAll(pattern)).map((m) => ({
+    sign: m[1] ? (m[1] === "+" ? "+" : "-") : "",
+    value: parseFloat(m[2]),
+    unit: (m[3] ?? "").toLowerCase(),
+  }));
+}
+
+function toMetres({ value, unit }: Measure): number {
+  return unit === "ft" || unit === "feet" ? value * 0.3048 : value;
+}
+
+function toKm({ value, unit }: Measure): number {
+  return unit === "mi" || unit === "miles" ? value * 1.609344 : value;
+}
+
+export function parseAltitude(value: unknown): number | null {
+  if (/^\s*sea level\s*$/i.test(String(value))) return 0;
+  // Prefer the first figure stated in metres; fall back to the first figure.
+  const measures = extractMeasures(value);
+  const metric = measures.find((m) => m.unit.startsWith("m") && m.unit !== "mi" && m.unit !== "miles");
+  const measure = metric ?? measures[0];
+  if (!measure) return null;
+  const alt = Math.round(toMetres(measure));
+  return alt >= MIN_ALTITUDE_M && alt <= MAX_ALTITUDE_M ? alt : null;
+}
+
+export function parseDistanceKm(value: unknown): number | null {
+  const [measure] = extractMeasures(value);
+  if (!measure) return null;
+  return Math.round(toKm(measure) * 10) / 10;
+}
+
+// "+750m / -300m" → { gain: 750, loss: 300 }; "-600m" → { loss: 600 };
+// an unsigned single figure is treated as gain.
+export function parseGainLoss(value: unknown): { gain: number | null; loss: number | null } | null {
+  const measures = extractMeasures(value);
+  if (measures.length === 0) return null;
+
+  let gain: number | null = null;
+  let loss: number | null = null;
+  for (const m of measures.slice(0, 2)) {
+    const metres = Math.round(toMetres(m));
+    if (m.sign === "-") loss ??= metres;
+    else if (gain === null) gain = metres;
+    else loss ??= metres;
+  }
+  return { gain, loss };
+}
+
+function parseDayNumber(value: unknown): number | null {
+  if (typeof value === "number" && Number.isInteger(value)) return value;
+  // Section-based itineraries use "Section 1", "Section 2", …
+  const match = String(value ?? "").match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+function titleOf(raw: Record<string, unknown>): string | null {
+  const known = firstField(raw, TITLE_FIELDS);
+  if (known) return String(known[1]);
+  // Some sheets name the route column after the variant ("routeXToY")
+  const other = Object.keys(raw).find((k) => k.startsWith("route") && !isEmpty(raw[k]));
+  return other ? String(raw[other]) : null;
+}
+
+export function normalizeItineraryDay(
+  raw: Record<string, unknown>,
+  trekSlug: string,
+  issues: ItineraryIssue[],
+): Omit<InsertItineraryDay, "trekId"> | null {
+  const issue = (field: string, value: unknown, reason: string) =>
+    issues.push({ trekSlug, day: raw.day, field, value, reason });
+
+  const dayNumber = parseDayNumber(raw.day);
+  if (dayNumber === null) {
+    issue("day", raw.day, "no day number");
+    return null;
+  }
+
+  const parseField = <T>(fields: string[], parse: (v: unknown) => T | null): T | null => {
+    const found = firstField(raw, fields);
+    if (!found) return null;
+    const parsed = parse(found[1]);
+    if (parsed === null) issue(found[0], found[1], "unparseable value");
+    return parsed;
+  };
+
+  const distanceKm = parseField(DISTANCE_FIELDS, parseDistanceKm);
+  const altitudeM = parseField(ALTITUDE_FIELDS, parseAltitude);
+  // Gain fields sometimes hold both figures ("+350m / -1,100m") or only a
+  // signed descent ("-1,000m"), so gain and loss are read together.
+  const gain = parseField(GAIN_FIELDS, parseGainLoss);
+  const loss = parseField(LOSS_FIELDS, parseGainLoss);
+  let elevationGainM = gain?.gain ?? null;
+  let elevationLossM = loss ? (loss.loss ?? loss.gain) : (gain?.loss ?? null);
+  if (!gain && !loss) {
+    const combined = parseField(GAIN_LOSS_FIELDS, parseGainLoss);
+    elevationGainM = combined?.gain ?? null;
+    elevationLossM = combined?.loss ?? null;
+  }
+
+  const lat = typeof raw.lat === "number" ? raw.lat : null;
+  const lng = typeof raw.lng === "number" ? raw.lng : null;
+  if (lat === null || lng === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    issue("lat/lng", [raw.lat, raw.lng], "missing or out-of-range coordinates");
+  }
+
+  const overnight = firstField(raw, OVERNIGHT_FIELDS);
+  const description = firstField(raw, DESCRIPTION_FIELDS);
+  const title = titleOf(raw) ?? (overnight ? `To ${overnight[1]}` : `Day ${dayNumber}`);
+
+  return {
+    dayNumber,
+    title,
+    description: description ? String(description[1]) : "",
+    distanceKm,
+    altitudeM,
+    elevationGainM,
+    elevationLossM,
+    campType: null,
+    overnight: overnight ? String(overnight[1]) : null,
+    latitude: lat,
+    longitude: lng,
+  };
+}
+
+// === WAYPOINTS ===
+// Each file also carries a top-level `waypoints` array of passes, summits,
+// viewpoints and landmarks: { name, type, lat, lng, altM, note }.
+
+export interface Waypoint {
+  name: string;
+  type: string;
+  latitude: number;
+  longitude: number;
+  altitudeM: number | null;
+  note: string | null;
+}
+
+export interface ItineraryFile {
+  slug: string;
+  sheetName?: string;
+  itinerary: Record<string, unknown>[];
+  waypoints?: Record<string, unknown>[];
+}
+
+// null when the entry has no usable name or coordinates
+export function normalizeWaypoint(raw: Record<string, unknown>): Waypoint | null {
+  const { lat, lng } = raw;
+  if (typeof lat !== "number" || typeof lng !== "number" || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null;
+  }
+  if (isEmpty(raw.name)) return null;
+  return {
+    name: String(raw.name),
+    type: isEmpty(raw.type) ? "landmark" : String(raw.type),
+    latitude: lat,
+    longitude: lng,
+    altitudeM: isEmpty(raw.altM) ? null : parseAltitude(raw.altM),
+    note: isEmpty(raw.note) ? null : String(raw.note),
+  };
+}
+
+export function normalizeWaypoints(raw: unknown): Waypoint[] {
+  if (!Array.isArray(raw)) return [];
+  return raw.flatMap((w) => {
+    const waypoint = w && typeof w === "object" ? normalizeWaypoint(w as Record<string, unknown>) : null;
+    return waypoint ? [waypoint] : [];
+  });
+}
@@ -0,0 +1,320 @@
+import type { ItineraryDay } from "./schema";
+import type { Waypoint } from "./itinerary";
+
+// Route files for GPS apps (Garmin, Gaia, …) and GIS tools (Google Earth,
+// QGIS), built from a trek's daily stops and named waypoints. Shared so
+// /api/treks/:id/route.* and the browser-side downloads on the static site
+// produce identical files.
+//
+// The itinerary only has one position per day (the overnight stop), so the
+// track is a straight-line sketch between stops, not a surveyed trail.
+
+export type RouteStop = Pick<
+  ItineraryDay,
+  | "dayNumber" | "title" | "description" | "overnight" | "distanceKm"
+  | "altitudeM" | "elevationGainM" | "elevationLossM" | "latitude" | "longitude"
+>;
+
+export interface TrekRoute {
+  slug: string;
+  name: string;
+  description?: string | null;
+  days: RouteStop[];
+  waypoints: Waypoint[];
+}
+
+export const SITE_URL = "https://trekmind.pages.dev";
+
+type PlacedStop = RouteStop & { latitude: number; longitude: number };
+
+// Days with coordinates, in day order
+export function routeStops(route: TrekRoute): PlacedStop[] {
+  return route.days
+    .filter((d): d is PlacedStop => d.latitude !== null && d.longitude !== null)
+    .sort((a, b) => a.dayNumber - b.dayNumber);
+}
+
+export function hasRouteData(route: TrekRoute): boolean {
+  return routeStops(route).length > 0 || route.waypoints.length > 0;
+}
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function stopName(stop: RouteStop): string {
+  return `Day ${stop.dayNumber}: ${stop.overnight ?? stop.title}`;
+}
+
+// Garmin symbol names for the waypoint types used in the itinerary files
+const GPX_SYMBOLS: Record<string, string> = {
+  summit: "Summit",
+  pass: "Summit",
+  viewpoint: "Scenic Area",
+  glacier: "Glacier",
+  camp: "Campground",
+  base_camp: "Campground",
+  hut: "Lodge",
+  hot_spring: "Swimming Area",
+  landmark: "Flag, Blue",
+};
+
+// ── GPX 1.1 ───────────────────────────────────────────────────────────────
+// Element order follows the GPX 1.1 schema: metadata, wpt*, rte*, trk*.
+//   wpt — the named waypoints, with elevation and notes
+//   rte — one per day, from the previous stop to that day's stop
+//   trk — the whole trek through every daily stop
+
+function gpxPoint(tag: string, lat: number, lon: number, children: Record<string, string | number | null | undefined>, indent: string): string {
+  const inner = Object.entries(children)
+    .filter(([, v]) => v !== null && v !== undefined && v !== "")
+    .map(([k, v]) => `${indent}  <${k}>${escapeXml(String(v))}</${k}>`);
+  return inner.length === 0
+    ? `${indent}<${tag} lat="${lat}" lon="${lon}"/>`
+    : `${indent}<${tag} lat="${lat}" lon="${lon}">\n${inner.join("\n")}\n${indent}</${tag}>`;
+}
+
+export function toGpx(route: TrekRoute): string {
+  const stops = routeStops(route);
+  const url = `${SITE_URL}/trek/${route.slug}`;
+  const out: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<gpx version="1.1" creator="TrekMind" xmlns="http://www.topografix.com/GPX/1/1" ` +
+      `xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" ` +
+      `xsi:schemaLocation="http://www.topografix.com/GPX/1/1 http://www.topografix.com/GPX/1/1/gpx.xsd">`,
+    `  <metadata>`,
+    `    <name>${escapeXml(route.name)}</name>`,
+  ];
+  if (route.description) out.push(`    <desc>${escapeXml(route.description)}</desc>`);
+  out.push(
+    `    <link href="${escapeXml(url)}">`,
+    `      <text>${escapeXml(`${route.name} on TrekMind`)}</text>`,
+    `    </link>`,
+    `  </metadata>`,
+  );
+
+  for (const wp of route.waypoints) {
+    out.push(gpxPoint("wpt", wp.latitude, wp.longitude, {
+      ele: wp.altitudeM,
+      name: wp.name,
+      desc: wp.note,
+      sym: GPX_SYMBOLS[wp.type] ?? GPX_SYMBOLS.landmark,
+      type: wp.type,
+    }, "  "));
+  }
+
+  stops.forEach((stop, i) => {
+    const prev = stops[i - 1];
+    // The first stop has no leg leading to it; rest days stay in one place
+    if (!prev || (prev.latitude === stop.latitude && prev.longitude === stop.longitude)) return;
+    out.push(
+      `  <rte>`,
+      `    <name>${escapeXml(`Day ${stop.dayNumber}: ${stop.title}`)}</name>`,
+    );
+    if (stop.description) out.push(`    <desc>${escapeXml(stop.description)}</desc>`);
+    out.push(
+      `    <number>${stop.dayNumber}</number>`,
+      gpxPoint("rtept", prev.latitude, prev.longitude, { ele: prev.altitudeM, name: stopName(prev) }, "    "),
+      gpxPoint("rtept", stop.latitude, stop.longitude, { ele: stop.altitudeM, name: stopName(stop) }, "    "),
+      `  </rte>`,
+    );
+  });
+
+  if (stops.length > 0) {
+    out.push(
+      `  <trk>`,
+      `    <name>${escapeXml(route.name)}</name>`,
+      `    <trkseg>`,
+      ...stops.map((stop) =>
+        gpxPoint("trkpt", stop.latitude, stop.longitude, { ele: stop.altitudeM, name: stopName(stop) }, "      "),
+      ),
+      `    </trkseg>`,
+      `  </trk>`,
+    );
+  }
+
+  out.push(`</gpx>`, "");
+  return out.join("\n");
+}
+
+// ── GeoJSON (RFC 7946) ────────────────────────────────────────────────────
+// One FeatureCollection: the route LineString, a Point per overnight stop and
+// a Point per waypoint. `kind` tells the three apart for styling in QGIS.
+// The per-day description is exported as `mapNote`, its name in the source files.
+
+export function toGeoJson(route: TrekRoute): string {
+  const stops = routeStops(route);
+  const features: object[] = [];
+
+  if (stops.length > 1) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: stops.map((s) => [s.longitude, s.latitude]) },
+      properties: { kind: "route", name: route.name, slug: route.slug, url: `${SITE_URL}/trek/${route.slug}` },
+    });
+  }
+
+  for (const stop of stops) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [stop.longitude, stop.latitude] },
+      properties: {
+        kind: "overnight",
+        name: stopName(stop),
+        day: stop.dayNumber,
+        title: stop.title,
+        overnight: stop.overnight,
+        distanceKm: stop.distanceKm,
+        altitudeM: stop.altitudeM,
+        elevationGainM: stop.elevationGainM,
+        elevationLossM: stop.elevationLossM,
+        mapNote: stop.description || null,
+      },
+    });
+  }
+
+  for (const wp of route.waypoints) {
+    features.push({
+      type: "Feature",
+      geometry: { type: "Point", coordinates: [wp.longitude, wp.latitude] },
+      properties: { kind: "waypoint", name: wp.name, type: wp.type, altitudeM: wp.altitudeM, note: wp.note },
+    });
+  }
+
+  return JSON.stringify({ type: "FeatureCollection", name: route.name, features }, null, 2) + "\n";
+}
+
+// ── KML 2.2 ───────────────────────────────────────────────────────────────
+// Folders for the route, the overnight stops and the waypoints. Day and
+// waypoint attributes go into ExtendedData so Google Earth shows them in the
+// balloon and QGIS imports them as fields.
+
+const KML_ICONS: Record<string, string> = {
+  overnight: "campground",
+  summit: "mountains",
+  pass: "triangle",
+  viewpoint: "camera",
+  glacier: "snowflake_simple",
+  camp: "campground",
+  base_camp: "campground",
+  hut: "lodging",
+  hot_spring: "swimming",
+  landmark: "flag",
+};
+
+function kmlData(values: Record<string, string | number | null | undefined>): string[] {
+  const entries = Object.entries(values).filter(([, v]) => v !== null && v !== undefined && v !== "");
+  if (entries.length === 0) return [];
+  return [
+    `        <ExtendedData>`,
+    ...entries.map(([k, v]) => `          <Data name="${k}"><value>${escapeXml(String(v))}</value></Data>`),
+    `        </ExtendedData>`,
+  ];
+}
+
+function kmlPlacemark(opts: {
+  name: string;
+  description?: string | null;
+  style: string;
+  data: Record<string, string | number | null | undefined>;
+  geometry: string;
+}): string[] {
+  return [
+    `      <Placemark>`,
+    `        <name>${escapeXml(opts.name)}</name>`,
+    ...(opts.description ? [`        <description>${escapeXml(opts.description)}</description>`] : []),
+    `        <styleUrl>#${opts.style}</styleUrl>`,
+    ...kmlData(opts.data),
+    `        ${opts.geometry}`,
+    `      </Placemark>`,
+  ];
+}
+
+const kmlCoord = (lng: number, lat: number, alt?: number | null) =>
+  alt === null || alt === undefined ? `${lng},${lat}` : `${lng},${lat},${alt}`;
+
+export function toKml(route: TrekRoute): string {
+  const stops = routeStops(route);
+  const styles = Array.from(new Set(["overnight", ...route.waypoints.map((w) => w.type)]));
+  const out: string[] = [
+    `<?xml version="1.0" encoding="UTF-8"?>`,
+    `<kml xmlns="http://www.opengis.net/kml/2.2">`,
+    `  <Document>`,
+    `    <name>${escapeXml(route.name)}</name>`,
+    `    <description>${escapeXml(`${route.description ? `${route.description}. ` : ""}${SITE_URL}/trek/${route.slug}`)}</description>`,
+    `    <Style id="route"><LineStyle><color>ff1a6ee6</color><width>3</width></LineStyle></Style>`,
+    ...styles.map((type) =>
+      `    <Style id="${escapeXml(type)}"><IconStyle><Icon><href>http://maps.google.com/mapfiles/kml/shapes/` +
+        `${KML_ICONS[type] ?? KML_ICONS.landmark}.png</href></Icon></IconStyle></Style>`,
+    ),
+  ];
+
+  if (stops.length > 1) {
+    out.push(
+      `    <Folder>`,
+      `      <name>Route</name>`,
+      ...kmlPlacemark({
+        name: route.name,
+        style: "route",
+        data: {},
+        geometry: `<LineString><tessellate>1</tessellate><coordinates>${stops
+          .map((s) => kmlCoord(s.longitude, s.latitude))
+          .join(" ")}</coordinates></LineString>`,
+      }),
+      `    </Folder>`,
+    );
+  }
+
+  if (stops.length > 0) {
+    out.push(`    <Folder>`, `      <name>Overnight stops</name>`);
+    for (const stop of stops) {
+      out.push(...kmlPlacemark({
+        name: stopName(stop),
+        description: stop.description,
+        style: "overnight",
+        data: {
+          day: stop.dayNumber,
+          title: stop.title,
+          distanceKm: stop.distanceKm,
+          altitudeM: stop.altitudeM,
+          elevationGainM: stop.elevationGainM,
+          elevationLossM: stop.elevationLossM,
+        },
+        geometry: `<Point><coordinates>${kmlCoord(stop.longitude, stop.latitude, stop.altitudeM)}</coordinates></Point>`,
+      }));
+    }
+    out.push(`    </Folder>`);
+  }
+
+  if (route.waypoints.length > 0) {
+    out.push(`    <Folder>`, `      <name>Waypoints</name>`);
+    for (const wp of route.waypoints) {
+      out.push(...kmlPlacemark({
+        name: wp.name,
+        description: wp.note,
+        style: wp.type,
+        data: { type: wp.type, altitudeM: wp.altitudeM },
+        geometry: `<Point><coordinates>${kmlCoord(wp.longitude, wp.latitude, wp.altitudeM)}</coordinates></Point>`,
+      }));
+    }
+    out.push(`    </Folder>`);
+  }
+
+  out.push(`  </Document>`, `</kml>`, "");
+  return out.join("\n");
+}
+
+// ── Formats ───────────────────────────────────────────────────────────────
+
+export const ROUTE_FORMATS = {
+  gpx: { label: "GPX", contentType: "application/gpx+xml", render: toGpx },
+  geojson: { label: "GeoJSON", contentType: "application/geo+json", render: toGeoJson },
+  kml: { label: "KML", contentType: "application/vnd.google-earth.kml+xml", render: toKml },
+} as const;
+
+export type RouteFormat = keyof typeof ROUTE_FORMATS;
@@ -1,5 +1,16 @@
 import { z } from 'zod';
-import { insertTrekSchema, treks, itineraryDays } from './schema';
+import {
+  insertTrekSchema,
+  insertItineraryDaySchema,
+  treks,
+  itineraryDays,
+  credentialsSchema,
+  insertSavedTrekSchema,
+  updatePreferencesSchema,
+  type PublicUser,
+  type SavedTrek,
+  type UserPreferences,
+} from './schema';
 
 export const errorSchemas = {
   notFound: z.object({
@@ -8,15 +19,71 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  validation: z.object({
+    message: z.string(),
+    field: z.string().optional(),
+    errors: z.array(z.object({ field: z.string(), message: z.string() })).optional(),
+  }),
+  conflict: z.object({
+    message: z.string(),
+    field: z.string().optional(),
+  }),
+  forbidden: z.object({
+    message: z.string(),
+  }),
+  unauthorized: z.object({
+    message: z.string(),
+  }),
 };
 
+// Multi-value query parameter: accepts repeated keys (?region=Asia&region=Europe)
+// and comma-separated values (?region=Asia,Europe), mirroring the string[]
+// fields of FilterState in client/src/types/filters.ts.
+const multiValue = z
+  .union([z.string(), z.array(z.string())])
+  .optional()
+  .transform((v) =>
+    (v === undefined ? [] : Array.isArray(v) ? v : [v])
+      .flatMap((s) => s.split(','))
+      .map((s) => s.trim())
+      .filter(Boolean),
+  );
+
+export const trekSortKeys = ['popularity', 'name', 'duration', 'altitude', 'distance', 'tier'] as const;
+
+export const trekQuerySchema = z.object({
+  tier: multiValue,
+  region: multiValue,
+  duration: multiValue,
+  terrain: multiValue,
+  accommodation: multiValue,
+  popularity: multiValue,
+  month: multiValue.refine(
+    (months) => months.every((m) => /^(?:[1-9]|1[0-2])$/.test(m)),
+    { message: 'month must be a number from 1 to 12' },
+  ),
+  budget: multiValue,
+  sort: z.enum(trekSortKeys).optional(),
+  order: z.enum(['asc', 'desc']).optional(),
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+export type TrekQuery = z.infer<typeof trekQuerySchema>;
+
+// Admin write schemas — ids come from the URL, never the body
+export const adminTrekSchema = insertTrekSchema.omit({ id: true });
+export const adminItineraryDaySchema = insertItineraryDaySchema.omit({ id: true, trekId: true });
+
 export const api = {
   treks: {
     list: {
       method: 'GET' as const,
       path: '/api/treks',
+      input: trekQuerySchema,
       responses: {
         200: z.array(z.custom<typeof treks.$inferSelect>()),
+        400: errorSchemas.validation,
       },
     },
     get: {
@@ -27,6 +94,186 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    // Route downloads — bodies and content types from ROUTE_FORMATS in shared/routeExport.ts
+    gpx: {
+      method: 'GET' as const,
+      path: '/api/treks/:id/route.gpx',
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+      },
+    },
+    geojson: {
+      method: 'GET' as const,
+      path: '/api/treks/:id/route.geojson',
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+      },
+    },
+    kml: {
+      method: 'GET' as const,
+      path: '/api/treks/:id/route.kml',
+      responses: {
+        200: z.string(),
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  auth: {
+    register: {
+      method: 'POST' as const,
+      path: '/api/register',
+      input: credentialsSchema,
+      responses: {
+        201: z.custom<PublicUser>(),
+        400: errorSchemas.validation,
+      },
+    },
+    login: {
+      method: 'POST' as const,
+      path: '/api/login',
+      input: credentialsSchema,
+      responses: {
+        200: z.custom<PublicUser>(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    logout: {
+      method: 'POST' as const,
+      path: '/api/logout',
+      responses: {
+        204: z.void(),
+      },
+    },
+    me: {
+      method: 'GET' as const,
+      path: '/api/user',
+      responses: {
+        200: z.custom<PublicUser>(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  savedTreks: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/saved-treks',
+      responses: {
+        200: z.array(z.custom<SavedTrek>()),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    // Bulk upsert: a single toggle and the merge of localStorage on first
+    // login both send an array of { trekId, status }.
+    upsert: {
+      method: 'PUT' as const,
+      path: '/api/saved-treks',
+      // One entry per trek — Postgres can't upsert the same row twice in one statement
+      input: z.array(insertSavedTrekSchema).refine(
+        (entries) => new Set(entries.map((e) => e.trekId)).size === entries.length,
+        { message: 'Each trekId may appear only once' },
+      ),
+      responses: {
+        200: z.array(z.custom<SavedTrek>()),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/saved-treks/:trekId',
+      responses: {
+        204: z.void(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+  },
+  // Editor-only endpoints (requireAdmin — see ADMIN_EMAILS in server/auth.ts).
+  // :id accepts a numeric trek id or a slug, like api.treks.get.
+  admin: {
+    treks: {
+      create: {
+        method: 'POST' as const,
+        path: '/api/admin/treks',
+        input: adminTrekSchema,
+        responses: {
+          201: z.custom<typeof treks.$inferSelect>(),
+          400: errorSchemas.validation,
+          409: errorSchemas.conflict,
+        },
+      },
+      update: {
+        method: 'PUT' as const,
+        path: '/api/admin/treks/:id',
+        input: adminTrekSchema.partial(),
+        responses: {
+          200: z.custom<typeof treks.$inferSelect>(),
+          400: errorSchemas.validation,
+          404: errorSchemas.notFound,
+          409: errorSchemas.conflict,
+        },
+      },
+      delete: {
+        method: 'DELETE' as const,
+        path: '/api/admin/treks/:id',
+        responses: {
+          204: z.void(),
+          404: errorSchemas.notFound,
+        },
+      },
+    },
+    itinerary: {
+      create: {
+        method: 'POST' as const,
+        path: '/api/admin/treks/:id/itinerary',
+        input: adminItineraryDaySchema,
+        responses: {
+          201: z.custom<typeof itineraryDays.$inferSelect>(),
+          400: errorSchemas.validation,
+          404: errorSchemas.notFound,
+        },
+      },
+      // Replaces the whole itinerary with the submitted days
+      replace: {
+        method: 'PUT' as const,
+        path: '/api/admin/treks/:id/itinerary',
+        input: z.array(adminItineraryDaySchema),
+        responses: {
+          200: z.array(z.custom<typeof itineraryDays.$inferSelect>()),
+          400: errorSchemas.validation,
+          404: errorSchemas.notFound,
+        },
+      },
+      delete: {
+        method: 'DELETE' as const,
+        path: '/api/admin/treks/:id/itinerary',
+        responses: {
+          204: z.void(),
+          404: errorSchemas.notFound,
+        },
+      },
+    },
+  },
+  preferences: {
+    get: {
+      method: 'GET' as const,
+      path: '/api/preferences',
+      responses: {
+        200: z.custom<UserPreferences>().nullable(),
+        401: errorSchemas.unauthorized,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/preferences',
+      input: updatePreferencesSchema,
+      responses: {
+        200: z.custom<UserPreferences>(),
+        400: errorSchemas.validation,
+        401: errorSchemas.unauthorized,
+      },
+    },
   },
 };
 
@@ -1,8 +1,37 @@
-import { pgTable, text, serial, integer, boolean, doublePrecision } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, doublePrecision, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 import { relations } from "drizzle-orm";
 
+// === SHARED VALUE TYPES ===
+
+// Cost range as stored in treks.json — USD plus the local currency equivalent.
+export interface TrekCost {
+  usd: [number, number];
+  local?: {
+    amount: [number, number];
+    currency: string;
+    code: string;
+  };
+}
+
+// A named filter combination saved from the filter popup. `query` is the
+// filters' URL query string (client/src/types/filters.ts), so a preset is
+// also a shareable link: /?<query>.
+export interface FilterPreset {
+  id: string;
+  name: string;
+  query: string;
+}
+
+// A completed Trek Finder run. `query` is the answers as the finder's URL
+// query string, so /trek-finder?<query> reproduces the same ranked results.
+export interface FinderSession {
+  id: string;
+  query: string;
+  savedAt: string; // ISO timestamp
+}
+
 // === TABLE DEFINITIONS ===
 
 export const treks = pgTable("treks", {
@@ -14,8 +43,10 @@ export const treks = pgTable("treks", {
   durationDays: integer("duration_days").notNull(),
   distanceKm: integer("distance_km").notNull(),
   maxAltitudeM: integer("max_altitude_m").notNull(),
-  difficulty: text("difficulty").notNull(),
+  totalDays: text("total_days"), // Display string from the catalog, e.g. "5–6 Days"
+  difficulty: text("difficulty"), // Not part of the catalog; kept for manually added treks
   bestSeason: text("best_season").notNull(),
+  seasonMonths: integer("season_months").array().notNull().default([]),
   latitude: doublePrecision("latitude").notNull(),
   longitude: doublePrecision("longitude").notNull(),
   heroImage: text("hero_image").notNull(),
@@ -23,6 +54,17 @@ export const treks = pgTable("treks", {
   riskWeather: boolean("risk_weather").notNull().default(false),
   riskRemoteness: boolean("risk_remoteness").notNull().default(false),
   riskPermitsRequired: boolean("risk_permits_required").notNull().default(false),
+  tier: integer("tier").notNull().default(3),
+  terrain: text("terrain"),
+  accommodation: text("accommodation"),
+  permits: text("permits"),
+  keyFeatures: text("key_features"),
+  popularityScore: integer("popularity_score"),
+  durationBucket: text("duration_bucket"),
+  budget: text("budget"), // "Low" | "Medium" | "High"
+  costIndependent: jsonb("cost_independent").$type<TrekCost>(),
+  costGuided: jsonb("cost_guided").$type<TrekCost>(),
+  costNotes: text("cost_notes"),
 });
 
 export const itineraryDays = pgTable("itinerary_days", {
@@ -31,11 +73,39 @@ export const itineraryDays = pgTable("itinerary_days", {
   dayNumber: integer("day_number").notNull(),
   title: text("title").notNull(),
   description: text("description").notNull(),
-  distanceKm: integer("distance_km"), // Optional in prompt
+  distanceKm: doublePrecision("distance_km"), // Optional in prompt
   altitudeM: integer("altitude_m"), // Renamed from maxAltitudeM to match prompt and made optional
   elevationGainM: integer("elevation_gain_m"), // Keeping for schema completeness but optional
   elevationLossM: integer("elevation_loss_m"),
   campType: text("camp_type"),
+  overnight: text("overnight"),
+  latitude: doublePrecision("latitude"),
+  longitude: doublePrecision("longitude"),
+});
+
+// Accounts for the self-hosted auth backend (server/auth.ts). Mirrors what the
+// client previously kept in Supabase: saved_treks and user_preferences.
+export const users = pgTable("users", {
+  id: serial("id").primaryKey(),
+  email: text("email").notNull().unique(),
+  passwordHash: text("password_hash").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const savedTreks = pgTable("saved_treks", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull(),
+  trekId: text("trek_id").notNull(), // Client trek id from treks.json, e.g. "ebc"
+  status: text("status").notNull(), // "completed" | "inProgress" | "wishlist"
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (t) => [unique("saved_treks_user_trek_unique").on(t.userId, t.trekId)]);
+
+export const userPreferences = pgTable("user_preferences", {
+  userId: integer("user_id").primaryKey(),
+  hasSeenIntro: boolean("has_seen_intro").notNull().default(false),
+  filterPresets: jsonb("filter_presets").$type<FilterPreset[]>().notNull().default([]),
+  finderSessions: jsonb("finder_sessions").$type<FinderSession[]>().notNull().default([]),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
 });
 
 // === RELATIONS ===
@@ -51,10 +121,78 @@ export const itineraryDaysRelations = relations(itineraryDays, ({ one }) => ({
   }),
 }));
 
+export const usersRelations = relations(users, ({ many, one }) => ({
+  savedTreks: many(savedTreks),
+  preferences: one(userPreferences),
+}));
+
+export const savedTreksRelations = relations(savedTreks, ({ one }) => ({
+  user: one(users, {
+    fields: [savedTreks.userId],
+    references: [users.id],
+  }),
+}));
+
+export const userPreferencesRelations = relations(userPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [userPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
 // === SCHEMAS ===
 
-export const insertTrekSchema = createInsertSchema(treks);
-export const insertItineraryDaySchema = createInsertSchema(itineraryDays);
+// Trek slugs are the client ids from treks.json ("ebc", "via-alpina", "w_trek")
+export const trekSlugSchema = z
+  .string()
+  .regex(/^[a-z0-9]+(?:[-_][a-z0-9]+)*$/, "Slug must be lowercase letters and digits separated by - or _");
+
+export const insertTrekSchema = createInsertSchema(treks, {
+  slug: trekSlugSchema,
+  name: (schema) => schema.trim().min(1),
+  durationDays: (schema) => schema.min(1),
+  distanceKm: (schema) => schema.min(0),
+  latitude: (schema) => schema.min(-90).max(90),
+  longitude: (schema) => schema.min(-180).max(180),
+  tier: (schema) => schema.min(1).max(5),
+  seasonMonths: z.array(z.number().int().min(1).max(12)).optional(),
+  popularityScore: (schema) => schema.min(0).max(10),
+});
+export const insertItineraryDaySchema = createInsertSchema(itineraryDays, {
+  dayNumber: (schema) => schema.min(0),
+  latitude: (schema) => schema.min(-90).max(90),
+  longitude: (schema) => schema.min(-180).max(180),
+});
+
+export const trekStatusSchema = z.enum(["completed", "inProgress", "wishlist"]);
+
+export const credentialsSchema = z.object({
+  email: z.string().trim().toLowerCase().email(),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+});
+export const insertSavedTrekSchema = createInsertSchema(savedTreks, {
+  trekId: (schema) => schema.min(1),
+  status: trekStatusSchema,
+}).pick({ trekId: true, status: true });
+export const MAX_FILTER_PRESETS = 50;
+export const filterPresetSchema = z.object({
+  id: z.string().min(1).max(64),
+  name: z.string().trim().min(1).max(60),
+  query: z.string().max(2000),
+});
+export const MAX_FINDER_SESSIONS = 20;
+export const MAX_FINDER_QUERY_LENGTH = 500; // the finder's URL query string
+export const finderSessionSchema = z.object({
+  id: z.string().min(1).max(64),
+  query: z.string().max(MAX_FINDER_QUERY_LENGTH),
+  savedAt: z.string().datetime(),
+});
+export const updatePreferencesSchema = createInsertSchema(userPreferences, {
+  filterPresets: z.array(filterPresetSchema).max(MAX_FILTER_PRESETS),
+  finderSessions: z.array(finderSessionSchema).max(MAX_FINDER_SESSIONS),
+})
+  .pick({ hasSeenIntro: true, filterPresets: true, finderSessions: true })
+  .partial();
 
 // === TYPES ===
 
@@ -65,3 +203,15 @@ export type ItineraryDay = typeof itineraryDays.$inferSelect;
 export type InsertItineraryDay = z.infer<typeof insertItineraryDaySchema>;
 
 export type TrekDetail = Trek & { itinerary: ItineraryDay[] };
+
+export type User = typeof users.$inferSelect;
+// isAdmin is derived from ADMIN_EMAILS on the server, not stored
+export type PublicUser = Pick<User, "id" | "email"> & { isAdmin: boolean };
+export type Credentials = z.infer<typeof credentialsSchema>;
+
+export type TrekStatus = z.infer<typeof trekStatusSchema>;
+export type SavedTrek = typeof savedTreks.$inferSelect;
+export type InsertSavedTrek = z.infer<typeof insertSavedTrekSchema>;
+
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type UpdatePreferences = z.infer<typeof updatePreferencesSchema>;
@@ -0,0 +1,89 @@
+// Alternative trek slugs → canonical trek id (the `id` in
+// client/src/data/treks.json). Older builds, the original server seed and
+// editorial.json used descriptive slugs ("everest-base-camp") where the
+// catalog uses short ids ("ebc"); links to them must keep working.
+//
+// Every trek lookup resolves through this table — getTrekById() and
+// getEditorialContent() on the client, storage.getTrekBySlug() on the server —
+// and /trek/<alias> redirects (301) to /trek/<id>: client-side in TrekDetail,
+// in dist/public/_redirects (script/redirects.ts) and in server/index.ts.
+// script/check-data.ts checks that every target exists and no alias shadows
+// a real id. There is deliberately no fuzzy matching: unknown ids are 404s.
+
+export const TREK_ALIASES: Record<string, string> = {
+  "acatenango-fuego": "acatenango",
+  "ala-kul-and-altyn-arashan": "ala-kul",
+  "alta-via-1": "av1",
+  "alta-via-2": "av2",
+  "alta-via-4": "av4",
+  "altai-mountains": "altai",
+  "annapurna-base-camp-abc": "abc",
+  "annapurna-circuit": "annapurna",
+  "arctic-circle-trail": "arctic",
+  "ausangate-circuit": "ausangate",
+  "banff-highline": "banff",
+  "camino-de-santiago": "camino",
+  "caucasus-tusheti": "tusheti",
+  "coast-to-coast": "c2c",
+  "cordillera-real": "cordillera",
+  "drakensberg-grand-traverse": "drakensberg",
+  "east-coast-trail": "east_coast",
+  "el-choro-trek": "el_choro",
+  "everest-base-camp": "ebc",
+  "fish-river-canyon": "fish_river",
+  "fishermans-trail": "fishermans",
+  "fitz-roy-trek": "fitz_roy",
+  "gokyo-lakes": "gokyo",
+  "huayhuash-circuit": "huayhuash",
+  "huemul-circuit": "huemel",
+  "kalalau-trail": "kalalau",
+  "karakoram-baltoro": "kbc",
+  "kilimanjaro-machame": "kilimanjaro",
+  "kumano-kodo": "kumano",
+  "larapinta-trail": "larapinta",
+  "laugavegur-trail": "laugavegur",
+  "lost-city-trek": "lost_city",
+  "lycian-way": "lycian",
+  "manaslu-circuit": "manaslu",
+  "markha-valley": "markha",
+  "mestia-to-ushguli": "ushguli",
+  "mgoun-traverse": "mgoun",
+  "milford-track": "milford",
+  "mount-fuji": "fuji",
+  "mount-hood-timberline": "timberline",
+  "mount-kailash": "kailash",
+  "mount-kailash-kora": "kailash",
+  "mount-kenya": "kenya",
+  "mount-rinjani": "rinjani",
+  "overland-track": "overland",
+  "pacific-crest-trail": "pct",
+  "peaks-of-the-balkans": "balkans",
+  "routeburn-track": "routeburn",
+  "rwenzori-mountains": "rwenzori",
+  "salkantay-trek": "salkantay",
+  "santa-cruz-trek": "santa_cruz",
+  "simien-mountains": "simien",
+  "skyline_canada": "skyline",
+  "snowman-trek": "snowman",
+  "tiger-leaping-gorge": "tiger_leaping",
+  "tongariro-circuit": "tongariro",
+  "torres-del-paine-o": "torres",
+  "toubkal": "toublak",
+  "toubkal-circuit": "toublak",
+  "tour-du-mont-blanc": "tmb",
+  "triglav-circuit": "triglav",
+  "walkers-haute-route": "haute_route",
+  "west-coast-trail": "west_coast",
+  "west-highland-way": "whw",
+  "wonderland-trail": "wonderland",
+  "yading-kora": "yading_kora",
+};
+
+export function resolveTrekId(idOrAlias: string): string {
+  return Object.prototype.hasOwnProperty.call(TREK_ALIASES, idOrAlias) ? TREK_ALIASES[idOrAlias] : idOrAlias;
+}
+
+// Aliases pointing at `id`, e.g. to find data still keyed by a legacy slug
+export function getTrekAliases(id: string): string[] {
+  return Object.keys(TREK_ALIASES).filter((alias) => TREK_ALIASES[alias] === id);
+}
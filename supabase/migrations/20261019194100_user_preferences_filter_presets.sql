@@ -0,0 +1,4 @@
+-- Saved filter presets (client/src/hooks/useFilterPresets.ts): a JSON array of
+-- { id, name, query } per user, where query is the home page's filter query string.
+alter table public.user_preferences
+  add column if not exists filter_presets jsonb not null default '[]'::jsonb;
@@ -0,0 +1,5 @@
+-- Past Trek Finder runs (client/src/hooks/useFinderSessions.ts): a JSON array of
+-- { id, query, savedAt } per user, newest first, where query is the finder's
+-- query string.
+alter table public.user_preferences
+  add column if not exists finder_sessions jsonb not null default '[]'::jsonb;